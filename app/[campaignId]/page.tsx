@@ -0,0 +1,27 @@
+import { notFound } from "next/navigation";
+import { CampaignPage } from "@/components/CampaignPage";
+import { getCampaign, listCampaignIds } from "@/lib/contracts/campaigns";
+
+type CampaignRouteProps = {
+  params: Promise<{ campaignId: string }>;
+};
+
+/**
+ * Prerenders a page per registered campaign; required for static exports.
+ */
+export function generateStaticParams(): Array<{ campaignId: string }> {
+  return listCampaignIds().map((campaignId) => ({ campaignId }));
+}
+
+/**
+ * Claim page for a campaign from the registry, served at `/[campaignId]`.
+ */
+export default async function CampaignRoute({ params }: CampaignRouteProps) {
+  const { campaignId } = await params;
+  const campaign = getCampaign(campaignId);
+  if (!campaign) {
+    notFound();
+  }
+
+  return <CampaignPage campaign={campaign} />;
+}
@@ -0,0 +1,99 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { apiError, handleApiError } from "@/lib/server/api-errors";
+import type { CampaignRouteContext } from "@/lib/server/campaigns";
+import { resolveCampaign } from "@/lib/server/campaigns";
+import { CORS_HEADERS, corsPreflight } from "@/lib/server/cors";
+import { lookupProofs } from "@/lib/server/proof-lookup";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/server/rate-limit";
+import type { BatchProofApiResponse, BatchProofResult } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { addressSchema, MAX_BATCH_ADDRESSES, validateBatchProofBody } from "@/lib/utils/validation";
+
+/**
+ * POST /api/airdrop/[campaignId]/proof/batch
+ *
+ * Looks up Merkle proofs for many addresses at once. Body: { addresses: string[] }
+ * (1 to MAX_BATCH_ADDRESSES entries). Results are keyed by lowercase address, so duplicates in any
+ * case collapse into one result; invalid entries are keyed as submitted. Each distinct address
+ * counts as one request against the rate limit, so a batch costs the same as single lookups; a
+ * batch with more addresses than the client's per-window limit is refused with a 400.
+ *
+ * Response format (errors are `{ error, code }`; see `API_ERRORS` in app/lib/server/api-errors.ts):
+ * - 200: { data: { [address]: { status: "eligible", data } | { status: "not_eligible" } | { status: "invalid" } }, meta }
+ * - 400: INVALID_REQUEST
+ * - 404: CAMPAIGN_NOT_FOUND
+ * - 429: RATE_LIMITED (with Retry-After; see app/lib/server/rate-limit.ts)
+ * - 500: INTERNAL_ERROR
+ * - 503: TREE_UNAVAILABLE, or ROOT_MISMATCH (tree root doesn't match the contract's MERKLE_ROOT)
+ */
+export async function POST(
+  request: NextRequest,
+  context: CampaignRouteContext,
+): Promise<NextResponse<BatchProofApiResponse>> {
+  let headers: Record<string, string> = { ...CORS_HEADERS };
+
+  try {
+    const body = validateBatchProofBody(await request.json().catch(() => null));
+    const keys = new Set(
+      body.success
+        ? body.data.addresses.map((address) =>
+            addressSchema.safeParse(address).success ? address.toLowerCase() : address,
+          )
+        : [],
+    );
+
+    // Malformed bodies still count as one request
+    const rateLimit = await checkRateLimit(request, Math.max(1, keys.size));
+    headers = { ...headers, ...rateLimitHeaders(rateLimit) };
+    if (rateLimit?.oversized) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, headers, {
+        error: `Invalid request body: at most ${rateLimit.limit} addresses per rate-limit window`,
+      });
+    }
+    if (rateLimit?.limited) {
+      return apiError(ApiErrorCode.RATE_LIMITED, headers);
+    }
+
+    const campaign = await resolveCampaign(context);
+    if (!campaign) {
+      return apiError(ApiErrorCode.CAMPAIGN_NOT_FOUND, headers);
+    }
+
+    if (!body.success) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, headers, {
+        error: `Invalid request body: expected 1 to ${MAX_BATCH_ADDRESSES} addresses`,
+      });
+    }
+
+    const validAddresses = [...keys].filter((key) => addressSchema.safeParse(key).success);
+
+    // Fetch the tree or the needed proof shards (cached after first request)
+    const { claims, meta } = await lookupProofs(campaign, validAddresses);
+
+    const results: Record<string, BatchProofResult> = {};
+    for (const address of keys) {
+      const claimData = claims.get(address);
+      if (claimData === undefined) {
+        results[address] = { status: "invalid" };
+        continue;
+      }
+
+      results[address] = claimData
+        ? { data: claimData, status: "eligible" }
+        : { status: "not_eligible" };
+    }
+
+    return NextResponse.json({ data: results, meta }, { headers });
+  } catch (error) {
+    return handleApiError(error, "generating batch proofs", headers);
+  }
+}
+
+/**
+ * OPTIONS handler for CORS support
+ * Allows external integrations to call this API
+ */
+export async function OPTIONS() {
+  return corsPreflight(["POST"]);
+}
@@ -0,0 +1,81 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { apiError, handleApiError } from "@/lib/server/api-errors";
+import type { CampaignRouteContext } from "@/lib/server/campaigns";
+import { resolveCampaign } from "@/lib/server/campaigns";
+import { getClaimStatus } from "@/lib/server/claim-status";
+import { CORS_HEADERS, corsPreflight } from "@/lib/server/cors";
+import { resolveAddress } from "@/lib/server/ens";
+import { lookupProof } from "@/lib/server/proof-lookup";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/server/rate-limit";
+import type { ProofApiResponse } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { validateProofQuery } from "@/lib/utils/validation";
+
+/**
+ * GET /api/airdrop/[campaignId]/proof?address=0x... (or ?address=name.eth)
+ *
+ * Fetches Merkle proof from the campaign's IPFS-hosted tree, or from its proof shards if
+ * configured. ENS names are resolved on the campaign's chain; the response carries the address
+ * that was looked up. When the campaign has a contract, `claimed` (and `claimTxHash` if found)
+ * report the on-chain claim status.
+ * `/api/airdrop/proof` is rewritten here for the default campaign (see next.config.ts).
+ *
+ * Response format (errors are `{ error, code }`; see `API_ERRORS` in app/lib/server/api-errors.ts):
+ * - 200: { address, data: { index, amount, proof }, claimed?, claimTxHash?, meta: { root, loadedAt } }
+ * - 400: INVALID_ADDRESS
+ * - 404: NOT_ELIGIBLE (with address and meta), NAME_NOT_RESOLVED or CAMPAIGN_NOT_FOUND
+ * - 429: RATE_LIMITED (with Retry-After; see app/lib/server/rate-limit.ts)
+ * - 500: INTERNAL_ERROR
+ * - 503: TREE_UNAVAILABLE, or ROOT_MISMATCH (tree root doesn't match the contract's MERKLE_ROOT)
+ */
+export async function GET(
+  request: NextRequest,
+  context: CampaignRouteContext,
+): Promise<NextResponse<ProofApiResponse>> {
+  let headers: Record<string, string> = { ...CORS_HEADERS };
+
+  try {
+    const rateLimit = await checkRateLimit(request);
+    headers = { ...headers, ...rateLimitHeaders(rateLimit) };
+    if (rateLimit?.limited) {
+      return apiError(ApiErrorCode.RATE_LIMITED, headers);
+    }
+
+    const campaign = await resolveCampaign(context);
+    if (!campaign) {
+      return apiError(ApiErrorCode.CAMPAIGN_NOT_FOUND, headers);
+    }
+
+    const query = validateProofQuery(request.nextUrl.searchParams.get("address"));
+
+    if (!query.success) {
+      return apiError(ApiErrorCode.INVALID_ADDRESS, headers);
+    }
+
+    const address = await resolveAddress(campaign, query.data.address);
+    if (!address) {
+      return apiError(ApiErrorCode.NAME_NOT_RESOLVED, headers);
+    }
+
+    // Fetch the tree or the address's proof shard (cached after first request)
+    const { claimData, meta } = await lookupProof(campaign, address);
+    if (!claimData) {
+      return apiError(ApiErrorCode.NOT_ELIGIBLE, headers, { address, meta });
+    }
+
+    const claimStatus = await getClaimStatus(campaign, claimData.index, address);
+
+    return NextResponse.json({ address, data: claimData, meta, ...claimStatus }, { headers });
+  } catch (error) {
+    return handleApiError(error, "generating proof", headers);
+  }
+}
+
+/**
+ * OPTIONS handler for CORS support
+ * Allows external integrations to call this API
+ */
+export async function OPTIONS() {
+  return corsPreflight(["GET"]);
+}
@@ -0,0 +1,45 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { apiError, handleApiError } from "@/lib/server/api-errors";
+import { hasBearerToken } from "@/lib/server/auth";
+import type { CampaignRouteContext } from "@/lib/server/campaigns";
+import { resolveCampaign } from "@/lib/server/campaigns";
+import { reloadProofs } from "@/lib/server/proof-lookup";
+import type { RevalidateApiResponse } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+
+/**
+ * POST /api/airdrop/[campaignId]/revalidate
+ *
+ * Operator endpoint: drops the campaign's cached Merkle tree (or proof shards) and loads it again, e.g. after
+ * re-pinning. Requires `Authorization: Bearer <REVALIDATE_SECRET>`.
+ *
+ * Response format (errors are `{ error, code }`; see `API_ERRORS` in app/lib/server/api-errors.ts):
+ * - 200: { data: { root, loadedAt } }
+ * - 401: UNAUTHORIZED
+ * - 404: CAMPAIGN_NOT_FOUND
+ * - 500: INTERNAL_ERROR
+ * - 503: TREE_UNAVAILABLE, or ROOT_MISMATCH (tree root doesn't match the contract's MERKLE_ROOT)
+ */
+export async function POST(
+  request: NextRequest,
+  context: CampaignRouteContext,
+): Promise<NextResponse<RevalidateApiResponse>> {
+  if (!hasBearerToken(request, process.env.REVALIDATE_SECRET)) {
+    return apiError(ApiErrorCode.UNAUTHORIZED);
+  }
+
+  try {
+    const campaign = await resolveCampaign(context);
+    if (!campaign) {
+      return apiError(ApiErrorCode.CAMPAIGN_NOT_FOUND);
+    }
+
+    const meta = await reloadProofs(campaign);
+    console.log(`Merkle tree revalidated for campaign "${campaign.id}"`);
+
+    return NextResponse.json({ data: meta });
+  } catch (error) {
+    return handleApiError(error, "revalidating Merkle tree");
+  }
+}
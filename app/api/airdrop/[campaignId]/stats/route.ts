@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { apiError, handleApiError } from "@/lib/server/api-errors";
+import { getCampaignStats } from "@/lib/server/campaign-stats";
+import type { CampaignRouteContext } from "@/lib/server/campaigns";
+import { resolveCampaign } from "@/lib/server/campaigns";
+import { CORS_HEADERS, corsPreflight } from "@/lib/server/cors";
+import type { StatsApiResponse } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+
+/**
+ * GET /api/airdrop/[campaignId]/stats
+ *
+ * Returns campaign-wide figures: recipient count and total allocation from the Merkle tree,
+ * plus the expiration and claim progress read from the contract.
+ * `/api/airdrop/stats` is rewritten here for the default campaign (see next.config.ts).
+ *
+ * Response format (errors are `{ error, code }`; see `API_ERRORS` in app/lib/server/api-errors.ts):
+ * - 200: { data: { recipients, totalAmount, expiration, claimedCount, claimedAmount }, meta }
+ * - 404: CAMPAIGN_NOT_FOUND
+ * - 500: INTERNAL_ERROR
+ * - 503: TREE_UNAVAILABLE, or ROOT_MISMATCH (tree root doesn't match the contract's MERKLE_ROOT)
+ */
+export async function GET(
+  _request: Request,
+  context: CampaignRouteContext,
+): Promise<NextResponse<StatsApiResponse>> {
+  try {
+    const campaign = await resolveCampaign(context);
+    if (!campaign) {
+      return apiError(ApiErrorCode.CAMPAIGN_NOT_FOUND, CORS_HEADERS);
+    }
+
+    const { stats, meta } = await getCampaignStats(campaign);
+    return NextResponse.json({ data: stats, meta }, { headers: CORS_HEADERS });
+  } catch (error) {
+    return handleApiError(error, "computing campaign stats", CORS_HEADERS);
+  }
+}
+
+/**
+ * OPTIONS handler for CORS support
+ */
+export async function OPTIONS() {
+  return corsPreflight(["GET"]);
+}
@@ -0,0 +1,84 @@
+import type { NextRequest } from "next/server";
+import { NextResponse } from "next/server";
+import { readMerkleRoot } from "@/lib/server/airdrop-contract";
+import { apiError, handleApiError } from "@/lib/server/api-errors";
+import type { CampaignRouteContext } from "@/lib/server/campaigns";
+import { resolveCampaign } from "@/lib/server/campaigns";
+import { CORS_HEADERS, corsPreflight } from "@/lib/server/cors";
+import { getProofsMeta } from "@/lib/server/proof-lookup";
+import { checkRateLimit, rateLimitHeaders } from "@/lib/server/rate-limit";
+import type { VerifyProofApiResponse } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { verifyClaimData } from "@/lib/utils/airdrop-core";
+import { validateVerifyProofBody } from "@/lib/utils/validation";
+
+/**
+ * POST /api/airdrop/[campaignId]/verify
+ *
+ * Checks a claim before it is submitted, so integrations can avoid paying gas for a proof that
+ * would revert with `SablierMerkleBase_InvalidProof`. Body: { index, address, amount, proof }.
+ * The proof is verified against the campaign tree's root and the contract's `MERKLE_ROOT`.
+ * `/api/airdrop/verify` is rewritten here for the default campaign (see next.config.ts).
+ *
+ * Response format (errors are `{ error, code }`; see `API_ERRORS` in app/lib/server/api-errors.ts):
+ * - 200: { data: { valid, matchesTreeRoot, matchesOnChainRoot }, meta }
+ * - 400: INVALID_REQUEST
+ * - 404: CAMPAIGN_NOT_FOUND
+ * - 429: RATE_LIMITED (with Retry-After; see app/lib/server/rate-limit.ts)
+ * - 500: INTERNAL_ERROR
+ * - 503: TREE_UNAVAILABLE, or ROOT_MISMATCH (tree root doesn't match the contract's MERKLE_ROOT)
+ */
+export async function POST(
+  request: NextRequest,
+  context: CampaignRouteContext,
+): Promise<NextResponse<VerifyProofApiResponse>> {
+  let headers: Record<string, string> = { ...CORS_HEADERS };
+
+  try {
+    const rateLimit = await checkRateLimit(request);
+    headers = { ...headers, ...rateLimitHeaders(rateLimit) };
+    if (rateLimit?.limited) {
+      return apiError(ApiErrorCode.RATE_LIMITED, headers);
+    }
+
+    const campaign = await resolveCampaign(context);
+    if (!campaign) {
+      return apiError(ApiErrorCode.CAMPAIGN_NOT_FOUND, headers);
+    }
+
+    const body = validateVerifyProofBody(await request.json().catch(() => null));
+    if (!body.success) {
+      return apiError(ApiErrorCode.INVALID_REQUEST, headers, {
+        error: "Invalid request body: expected { index, address, amount, proof }",
+      });
+    }
+    const { address, ...claimData } = body.data;
+
+    const meta = await getProofsMeta(campaign);
+    const matchesTreeRoot = verifyClaimData(meta.root, address, claimData);
+    const matchesOnChainRoot = campaign.contractAddress
+      ? verifyClaimData(await readMerkleRoot(campaign), address, claimData)
+      : null;
+
+    return NextResponse.json(
+      {
+        data: {
+          matchesOnChainRoot,
+          matchesTreeRoot,
+          valid: matchesTreeRoot && matchesOnChainRoot !== false,
+        },
+        meta,
+      },
+      { headers },
+    );
+  } catch (error) {
+    return handleApiError(error, "verifying proof", headers);
+  }
+}
+
+/**
+ * OPTIONS handler for CORS support
+ */
+export async function OPTIONS() {
+  return corsPreflight(["POST"]);
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { CORS_HEADERS } from "@/lib/server/cors";
+import { buildOpenApiDocument } from "@/lib/server/openapi";
+
+/**
+ * GET /api/openapi.json
+ *
+ * OpenAPI 3.1 document for the airdrop API, generated from the zod schemas so integrators can
+ * generate clients.
+ */
+export async function GET(): Promise<NextResponse> {
+  return NextResponse.json(buildOpenApiDocument(), { headers: CORS_HEADERS });
+}
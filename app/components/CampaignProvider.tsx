@@ -0,0 +1,24 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { CampaignContext } from "@/hooks/useCampaign";
+import { getCampaign } from "@/lib/contracts/campaigns";
+
+type CampaignProviderProps = {
+  /** Registry id of the campaign to provide */
+  campaignId: string;
+  children: ReactNode;
+};
+
+/**
+ * Makes a registered campaign available to the airdrop hooks below it.
+ * Takes the id rather than the campaign so server components can render it.
+ */
+export function CampaignProvider({ campaignId, children }: CampaignProviderProps) {
+  const campaign = getCampaign(campaignId);
+  if (!campaign) {
+    throw new Error(`Unknown campaign: ${campaignId}`);
+  }
+
+  return <CampaignContext value={campaign}>{children}</CampaignContext>;
+}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useCampaign, useCampaignStats } from "@/hooks";
+
+type StatTileProps = {
+  label: string;
+  value?: string;
+  /** Secondary line under the label, e.g. claim progress */
+  detail?: string;
+};
+
+function StatTile({ label, value, detail }: StatTileProps) {
+  return (
+    <div className="rounded-xl border bg-white p-6 text-center dark:bg-gray-900">
+      <div className="mb-2 text-3xl font-bold text-blue-600 dark:text-blue-400">
+        {value ?? "---"}
+      </div>
+      <div className="text-sm font-medium text-gray-600 dark:text-gray-400">{label}</div>
+      {detail && <div className="mt-1 text-xs text-gray-500 dark:text-gray-500">{detail}</div>}
+    </div>
+  );
+}
+
+/**
+ * Campaign statistics tiles, filled from `/api/airdrop/[campaignId]/stats`
+ *
+ * CUSTOMIZATION POINT: Campaign statistics and info
+ *
+ * Shows "---" while loading or when a figure is unavailable.
+ */
+export function CampaignStatTiles() {
+  const { tokenSymbol } = useCampaign();
+  const { formatted } = useCampaignStats();
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <StatTile
+        detail={formatted?.claimedCount && `${formatted.claimedCount} claimed`}
+        label="Total Recipients"
+        value={formatted?.recipients}
+      />
+      <StatTile
+        detail={formatted?.claimedAmount && `${formatted.claimedAmount} ${tokenSymbol} claimed`}
+        label={`Total Allocated (${tokenSymbol})`}
+        value={formatted?.totalAmount}
+      />
+      <StatTile label="Claims End" value={formatted?.expiration} />
+    </div>
+  );
+}
@@ -1,8 +1,10 @@
 "use client";
 
-import { parseUnits } from "viem";
+import { mainnet } from "viem/chains";
+import { useEnsName } from "wagmi";
 import {
   useAirdropProof,
+  useCampaign,
   useClaimableAmount,
   useClaimStatus,
   useClaimWithFee,
@@ -10,7 +12,9 @@ import {
   useIpfsCID,
   useMinFeeUSD,
 } from "@/hooks";
-import { getChainId, getExplorerTxUrl } from "@/lib/contracts/airdrop";
+import { getExplorerTxUrl } from "@/lib/contracts/airdrop";
+import { shortenAddress } from "@/lib/utils/address";
+import { ROOT_UNAVAILABLE_MESSAGE } from "@/lib/utils/errors";
 import { claimCardVariants } from "./ClaimCard.variants";
 import { ConnectWallet } from "./ConnectWallet";
 import { TransactionStatus } from "./TransactionStatus";
@@ -40,27 +44,49 @@ export function ClaimCard({
 }: ClaimCardProps) {
   const styles = claimCardVariants();
 
-  const chainId = getChainId();
+  const { chainId } = useCampaign();
 
   const {
+    address,
     proof,
     isEligible,
     isLoading: isLoadingProof,
     isError: isProofError,
+    isMisconfigured,
     error: proofError,
+    claimed: claimedOnServer,
+    claimTxHash,
   } = useAirdropProof();
   const { formatted: amountFormatted } = useClaimableAmount(tokenDecimals);
-  const { isClaimed, isLoading: isCheckingClaim, isConnected } = useClaimStatus(proof?.index);
-  const { claim, isPending, isConfirmed, hash, errorMessage, transactionState } = useClaimWithFee();
+  // The proof response usually carries the claim status; only read it on-chain when it doesn't
+  const {
+    isClaimed: isClaimedOnChain,
+    isLoading: isCheckingClaim,
+    isConnected,
+  } = useClaimStatus(claimedOnServer === undefined ? proof?.index : undefined);
+  const isClaimed = claimedOnServer ?? isClaimedOnChain;
+  const {
+    claim,
+    isPending,
+    isConfirmed,
+    hash,
+    errorMessage,
+    isProofMismatch,
+    isRootKnown,
+    isRootUnavailable,
+    transactionState,
+  } = useClaimWithFee();
 
   const { hasExpired } = useHasExpired();
   const { formatted: minFeeFormatted, minFeeUSD } = useMinFeeUSD();
   const { ipfsCID } = useIpfsCID();
+  // Primary names live on mainnet ENS, whatever chain the campaign is on
+  const { data: ensName } = useEnsName({ address, chainId: mainnet.id });
 
   const handleClaim = () => {
     if (!proof) return;
-    const amount = parseUnits(proof.amount, tokenDecimals);
-    claim(BigInt(proof.index), amount, proof.proof);
+    // Proof amounts are already in base units
+    claim(BigInt(proof.index), BigInt(proof.amount), proof.proof);
   };
 
   const isLoading = isLoadingProof || isCheckingClaim;
@@ -70,6 +96,12 @@ export function ClaimCard({
       <h2 className={styles.title()}>{title}</h2>
       <p className={styles.description()}>{description}</p>
 
+      {isConnected && address && (
+        <p className={styles.recipient()}>
+          Connected as <span className="font-mono">{ensName ?? shortenAddress(address)}</span>
+        </p>
+      )}
+
       {/* Step 1: Connect Wallet */}
       {!isConnected && (
         <div className="space-y-4">
@@ -102,8 +134,16 @@ export function ClaimCard({
         </div>
       )}
 
+      {/* Campaign Misconfigured — tree doesn't match the contract's Merkle root */}
+      {isConnected && !hasExpired && isMisconfigured && (
+        <div className={styles.warning()}>
+          <p className="font-semibold">Campaign Misconfigured</p>
+          <p className="mt-1 text-sm">{proofError?.message}</p>
+        </div>
+      )}
+
       {/* Error fetching proof */}
-      {isConnected && !hasExpired && isProofError && (
+      {isConnected && !hasExpired && isProofError && !isMisconfigured && (
         <div className={styles.error()}>
           <p className="font-semibold">Error Checking Eligibility</p>
           <p className="mt-1 text-sm">
@@ -128,6 +168,16 @@ export function ClaimCard({
         <div className={styles.success()}>
           <p className="font-semibold">Already Claimed ✓</p>
           <p className="mt-1 text-sm">You have already claimed your {tokenSymbol} tokens.</p>
+          {claimTxHash && (
+            <a
+              className="mt-3 inline-block cursor-pointer text-sm font-medium underline"
+              href={getExplorerTxUrl(claimTxHash, chainId)}
+              rel="noopener noreferrer"
+              target="_blank"
+            >
+              View claim transaction →
+            </a>
+          )}
         </div>
       )}
 
@@ -144,7 +194,7 @@ export function ClaimCard({
           {!isPending && !isConfirmed && (
             <button
               className={styles.button()}
-              disabled={isPending}
+              disabled={isPending || !isRootKnown}
               onClick={handleClaim}
               type="button"
             >
@@ -154,9 +204,18 @@ export function ClaimCard({
 
           {minFeeUSD > 0n && <p className={styles.fee()}>Minimum claim fee: {minFeeFormatted}</p>}
 
+          {isRootUnavailable && (
+            <div className={styles.error()}>
+              <p className="font-semibold">Claim Unavailable</p>
+              <p className="mt-1 text-sm">{ROOT_UNAVAILABLE_MESSAGE}</p>
+            </div>
+          )}
+
           {errorMessage && (
             <div className={styles.error()}>
-              <p className="font-semibold">Transaction Failed</p>
+              <p className="font-semibold">
+                {isProofMismatch ? "Claim Not Sent" : "Transaction Failed"}
+              </p>
               <p className="mt-1 text-sm">{errorMessage}</p>
             </div>
           )}
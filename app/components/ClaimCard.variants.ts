@@ -15,6 +15,7 @@ export const claimCardVariants = tv({
     footer:
       "mt-6 border-t border-gray-200 pt-4 text-center text-xs text-gray-400 dark:border-gray-800",
     info: "rounded-lg border border-blue-300 bg-blue-50 p-4 text-blue-800 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-200",
+    recipient: "-mt-4 mb-6 text-sm text-gray-500 dark:text-gray-400",
     status: "mb-4 rounded-lg border p-4",
     success:
       "rounded-lg border border-green-300 bg-green-50 p-4 text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200",
@@ -95,7 +95,7 @@ export function ConnectWallet({
                     <span className={styles.balance()}>{account.displayBalance}</span>
                   )}
                   <span className={styles.address()}>
-                    {shortenAddress(account.address as Address)}
+                    {account.ensName ?? shortenAddress(account.address as Address)}
                   </span>
                 </div>
               </button>
@@ -1,6 +1,7 @@
 "use client";
 
-import { getChainId, getExplorerTxUrl } from "@/lib/contracts/airdrop";
+import { useCampaign } from "@/hooks";
+import { getExplorerTxUrl } from "@/lib/contracts/airdrop";
 import type { TransactionState } from "@/lib/types/airdrop.types";
 import { transactionStatusVariants } from "./TransactionStatus.variants";
 
@@ -47,7 +48,7 @@ export function TransactionStatus({
   isConfirmed,
   error,
 }: TransactionState) {
-  const chainId = getChainId();
+  const { chainId } = useCampaign();
 
   // Determine current status
   const status = resolveStatus({ error, isConfirmed, isConfirming, isWriting });
@@ -138,7 +139,7 @@ export function TransactionStatusCompact({
   isConfirming,
   isConfirmed,
 }: Omit<TransactionState, "error">) {
-  const chainId = getChainId();
+  const { chainId } = useCampaign();
 
   if (isWriting) {
     return (
@@ -1,3 +1,6 @@
+export { CampaignPage } from "./CampaignPage";
+export { CampaignProvider } from "./CampaignProvider";
+export { CampaignStatTiles } from "./CampaignStatTiles";
 export { ClaimCard } from "./ClaimCard";
 export { ConnectWallet } from "./ConnectWallet";
 export { ConnectWalletSimple } from "./ConnectWalletSimple";
@@ -1,4 +1,6 @@
 export { useAirdropProof, useAirdropProofForAddress } from "./useAirdropProof";
+export { useCampaign } from "./useCampaign";
+export { useCampaignStats } from "./useCampaignStats";
 export { useClaimAirdrop } from "./useClaimAirdrop";
 export { useClaimableAmount } from "./useClaimableAmount";
 export { useClaimFee } from "./useClaimFee";
@@ -1,41 +1,76 @@
 import { useQuery } from "@tanstack/react-query";
-import { useAccount } from "wagmi";
-import type { ClaimData, ProofApiResponse } from "@/lib/types/airdrop.types";
+import { useAccount, usePublicClient } from "wagmi";
+import { isStaticExport, lookupStaticProof } from "@/lib/client/static-proofs";
+import type { AirdropCampaign, ProofLookup } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { CampaignMisconfiguredError } from "@/lib/utils/errors";
+import { proofApiResponseSchema } from "@/lib/utils/validation";
+import { useCampaign } from "./useCampaign";
 
 const PROOF_QUERY_DEFAULTS = {
   gcTime: 600_000, // 10 minutes
-  retry: 3,
   staleTime: 300_000, // 5 minutes — proof doesn't change
+  // A misconfigured campaign won't fix itself on retry
+  retry: (failureCount: number, error: Error) =>
+    !(error instanceof CampaignMisconfiguredError) && failureCount < 3,
   retryDelay: (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 10_000),
 } as const;
 
 /**
  * Fetches Merkle proof for a given address
  *
- * @param address - Ethereum address to check (optional, defaults to connected wallet)
- * @returns Proof data if eligible, null if not
+ * @param campaignId - Registry id of the campaign
+ * @param addressOrName - Ethereum address or ENS name to check
+ * @returns The looked-up address and its proof data (null if not eligible)
  */
-async function fetchProof(address: string): Promise<ClaimData | null> {
-  const response = await fetch(`/api/airdrop/proof?address=${address}`);
+async function fetchProof(campaignId: string, addressOrName: string): Promise<ProofLookup> {
+  const response = await fetch(
+    `/api/airdrop/${encodeURIComponent(campaignId)}/proof?address=${encodeURIComponent(addressOrName)}`,
+  );
 
-  if (!response.ok) {
-    // 404 means not eligible (expected case)
-    if (response.status === 404) {
-      return null;
-    }
-
-    // Other errors should throw
-    const errorData: ProofApiResponse = await response.json();
-    throw new Error(errorData.error || "Failed to fetch proof");
+  const parsed = proofApiResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!parsed.success) {
+    throw new Error("Invalid API response");
   }
+  const data = parsed.data;
 
-  const data: ProofApiResponse = await response.json();
+  switch (data.code) {
+    case undefined:
+      break;
+    // Expected outcomes: the address isn't in the tree, or the ENS name has no address
+    case ApiErrorCode.NOT_ELIGIBLE:
+    case ApiErrorCode.NAME_NOT_RESOLVED:
+      return { address: data.address, proof: null };
+    // The tree doesn't match the campaign contract; claims would revert
+    case ApiErrorCode.ROOT_MISMATCH:
+      throw new CampaignMisconfiguredError();
+    default:
+      throw new Error(data.error || "Failed to fetch proof");
+  }
 
-  if (!data.data) {
+  if (!response.ok || !data.data) {
     throw new Error("Invalid API response");
   }
 
-  return data.data;
+  return {
+    address: data.address,
+    claimed: data.claimed,
+    claimTxHash: data.claimTxHash,
+    proof: data.data,
+  };
+}
+
+/**
+ * Looks up a proof through the proof API, or in the browser when the app is a static export
+ */
+function lookupProof(
+  campaign: AirdropCampaign,
+  addressOrName: string,
+  client: ReturnType<typeof usePublicClient>,
+): Promise<ProofLookup> {
+  return isStaticExport()
+    ? lookupStaticProof(campaign, addressOrName, client)
+    : fetchProof(campaign.id, addressOrName);
 }
 
 /**
@@ -57,9 +92,11 @@ async function fetchProof(address: string): Promise<ClaimData | null> {
  */
 export function useAirdropProof() {
   const { address, isConnected } = useAccount();
+  const campaign = useCampaign();
+  const publicClient = usePublicClient({ chainId: campaign.chainId });
 
   const {
-    data: proof,
+    data: lookup,
     isLoading,
     isError,
     error,
@@ -67,16 +104,21 @@ export function useAirdropProof() {
   } = useQuery({
     ...PROOF_QUERY_DEFAULTS,
     enabled: isConnected && Boolean(address),
-    queryKey: ["airdrop-proof", address],
+    queryKey: ["airdrop-proof", campaign.id, address],
     queryFn: () => {
       if (!address) throw new Error("Address is required");
-      return fetchProof(address);
+      return lookupProof(campaign, address, publicClient);
     },
   });
+  const proof = lookup?.proof;
 
   return {
     /** Connected wallet address */
     address,
+    /** Whether already claimed, per the server; undefined if unknown (read it with `useClaimStatus`) */
+    claimed: lookup?.claimed,
+    /** Claim transaction, when the server found it */
+    claimTxHash: lookup?.claimTxHash,
     /** Error object */
     error,
     /** Whether wallet is connected */
@@ -87,6 +129,8 @@ export function useAirdropProof() {
     isError,
     /** Loading state */
     isLoading,
+    /** Whether the server refused to serve proofs because the campaign is misconfigured */
+    isMisconfigured: error instanceof CampaignMisconfiguredError,
     /** Proof data (index, amount, proof array) */
     proof,
     /** Manually refetch proof */
@@ -95,9 +139,9 @@ export function useAirdropProof() {
 }
 
 /**
- * Hook to fetch proof for a specific address (not just connected wallet)
+ * Hook to fetch proof for a specific address or ENS name (not just connected wallet)
  *
- * @param targetAddress - Address to check eligibility for
+ * @param targetAddress - Address or ENS name (e.g. "vitalik.eth") to check eligibility for
  * @param enabled - Whether to enable the query (default: true)
  *
  * @example
@@ -111,8 +155,11 @@ export function useAirdropProof() {
  * ```
  */
 export function useAirdropProofForAddress(targetAddress: string | undefined, enabled = true) {
+  const campaign = useCampaign();
+  const publicClient = usePublicClient({ chainId: campaign.chainId });
+
   const {
-    data: proof,
+    data: lookup,
     isLoading,
     isError,
     error,
@@ -120,16 +167,21 @@ export function useAirdropProofForAddress(targetAddress: string | undefined, ena
   } = useQuery({
     ...PROOF_QUERY_DEFAULTS,
     enabled: enabled && Boolean(targetAddress),
-    queryKey: ["airdrop-proof", targetAddress],
+    queryKey: ["airdrop-proof", campaign.id, targetAddress],
     queryFn: () => {
       if (!targetAddress) throw new Error("Address is required");
-      return fetchProof(targetAddress);
+      return lookupProof(campaign, targetAddress, publicClient);
     },
   });
+  const proof = lookup?.proof;
 
   return {
-    /** Target address being checked */
+    /** Target address or name being checked */
     address: targetAddress,
+    /** Whether already claimed, per the server; undefined if unknown */
+    claimed: lookup?.claimed,
+    /** Claim transaction, when the server found it */
+    claimTxHash: lookup?.claimTxHash,
     /** Error object */
     error,
     /** Whether address is eligible */
@@ -138,9 +190,13 @@ export function useAirdropProofForAddress(targetAddress: string | undefined, ena
     isError,
     /** Loading state */
     isLoading,
+    /** Whether the server refused to serve proofs because the campaign is misconfigured */
+    isMisconfigured: error instanceof CampaignMisconfiguredError,
     /** Proof data */
     proof,
     /** Manually refetch proof */
     refetch,
+    /** Address that was looked up; undefined if a name didn't resolve */
+    resolvedAddress: lookup?.address,
   };
 }
@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+
+/** Campaign served by the current page; provided by `CampaignProvider` */
+export const CampaignContext = createContext<AirdropCampaign | null>(null);
+
+/**
+ * Returns the campaign from the nearest `CampaignProvider`.
+ * Contract hooks read the contract address and chain from here instead of env vars.
+ *
+ * @example
+ * ```tsx
+ * const { contractAddress, chainId, tokenSymbol } = useCampaign();
+ * ```
+ */
+export function useCampaign(): AirdropCampaign {
+  const campaign = useContext(CampaignContext);
+  if (!campaign) {
+    throw new Error("useCampaign must be used within a CampaignProvider");
+  }
+  return campaign;
+}
@@ -0,0 +1,90 @@
+import { useQuery } from "@tanstack/react-query";
+import dayjs from "dayjs";
+import { formatUnits } from "viem";
+import type { CampaignStats } from "@/lib/types/airdrop.types";
+import { statsApiResponseSchema } from "@/lib/utils/validation";
+import { useCampaign } from "./useCampaign";
+
+/**
+ * Fetches campaign-wide stats
+ *
+ * @param campaignId - Registry id of the campaign
+ */
+async function fetchStats(campaignId: string): Promise<CampaignStats> {
+  const response = await fetch(`/api/airdrop/${encodeURIComponent(campaignId)}/stats`);
+  const parsed = statsApiResponseSchema.safeParse(await response.json().catch(() => null));
+  if (!parsed.success) {
+    throw new Error("Invalid API response");
+  }
+
+  if (!response.ok || !parsed.data.data) {
+    throw new Error(parsed.data.error || "Failed to fetch campaign stats");
+  }
+
+  return parsed.data.data;
+}
+
+/** Formats a base-unit token amount for display, e.g. "1,250,000.5" */
+function formatTokenAmount(amount: string, decimals: number): string {
+  return Number(formatUnits(BigInt(amount), decimals)).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  });
+}
+
+/** Formats the claim deadline, e.g. "Mar 1, 2026" */
+function formatExpiration(expiration: number | null): string | undefined {
+  if (expiration === null) {
+    return undefined;
+  }
+  return expiration === 0 ? "Never" : dayjs.unix(expiration).format("MMM D, YYYY");
+}
+
+/**
+ * Hook to fetch the campaign's recipient count, total allocation, expiration and claim progress,
+ * formatted with the campaign's token decimals
+ *
+ * @example
+ * ```tsx
+ * function TotalAllocated() {
+ *   const { formatted, isLoading } = useCampaignStats();
+ *
+ *   if (isLoading) return <div>Loading...</div>;
+ *   return <div>{formatted?.totalAmount}</div>;
+ * }
+ * ```
+ */
+export function useCampaignStats() {
+  const campaign = useCampaign();
+
+  const {
+    data: stats,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["airdrop-stats", campaign.id],
+    staleTime: 60_000, // 1 minute — matches the server-side cache
+    queryFn: () => fetchStats(campaign.id),
+  });
+
+  const formatted = stats && {
+    claimedAmount:
+      stats.claimedAmount === null
+        ? undefined
+        : formatTokenAmount(stats.claimedAmount, campaign.tokenDecimals),
+    claimedCount: stats.claimedCount?.toLocaleString(),
+    expiration: formatExpiration(stats.expiration),
+    recipients: stats.recipients.toLocaleString(),
+    totalAmount: formatTokenAmount(stats.totalAmount, campaign.tokenDecimals),
+  };
+
+  return {
+    /** Error object */
+    error,
+    /** Display strings; on-chain figures are undefined if they couldn't be read */
+    formatted,
+    /** Loading state */
+    isLoading,
+    /** Raw stats from the API */
+    stats,
+  };
+}
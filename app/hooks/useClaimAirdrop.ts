@@ -1,25 +1,31 @@
+import { useState } from "react";
 import type { BaseError, Hex } from "viem";
-import { useAccount, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
 import type { TransactionState } from "@/lib/types/airdrop.types";
-import { handleContractError } from "@/lib/utils/errors";
+import { verifyClaimData } from "@/lib/utils/airdrop-core";
+import { handleContractError, PROOF_MISMATCH_MESSAGE } from "@/lib/utils/errors";
+import { useCampaign } from "./useCampaign";
 
 /**
  * Hook to claim tokens from the airdrop contract
  *
  * Handles the full transaction lifecycle:
- * 1. Writing transaction to wallet
- * 2. Waiting for user approval
- * 3. Waiting for transaction confirmation
- * 4. Error handling
+ * 1. Checking the proof against the contract's Merkle root (a mismatch never reaches the wallet;
+ *    claims wait until the root is known)
+ * 2. Writing transaction to wallet
+ * 3. Waiting for user approval
+ * 4. Waiting for transaction confirmation
+ * 5. Error handling
  *
  * @example
  * ```tsx
- * function ClaimButton({ index, amount, proof }) {
+ * function ClaimButton({ proof }) {
  *   const { claim, isWriting, isConfirming, isConfirmed, error } = useClaimAirdrop();
  *
+ *   // Amounts in proofs are already base units, so they must not be scaled by decimals
  *   const handleClaim = () => {
- *     claim(BigInt(index), parseUnits(amount, 18), proof);
+ *     claim(BigInt(proof.index), BigInt(proof.amount), proof.proof);
  *   };
  *
  *   if (isConfirmed) return <div>Claimed!</div>;
@@ -36,8 +42,18 @@ import { handleContractError } from "@/lib/utils/errors";
  */
 export function useClaimAirdrop() {
   const { address } = useAccount();
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress, merkleRoot } = useCampaign();
+  const [isProofMismatch, setIsProofMismatch] = useState(false);
+
+  // Root the contract checks proofs against
+  const { data: onChainRoot, isError: isRootError } = useReadContract({
+    abi: AIRDROP_ABI,
+    address: contractAddress,
+    chainId,
+    functionName: "MERKLE_ROOT",
+  });
+  // The configured root stands in while the contract's can't be read
+  const root = onChainRoot ?? merkleRoot;
 
   // Write transaction
   const {
@@ -74,6 +90,17 @@ export function useClaimAirdrop() {
       throw new Error("Airdrop contract address is not configured");
     }
 
+    // Catch proofs that would revert with `InvalidProof` before the user pays gas for them
+    if (!root) {
+      throw new Error("The campaign's Merkle root is not known yet, so the proof can't be checked");
+    }
+    const claimData = { amount: amount.toString(), index: Number(index), proof };
+    if (!verifyClaimData(root, address, claimData)) {
+      setIsProofMismatch(true);
+      return;
+    }
+    setIsProofMismatch(false);
+
     writeContract({
       abi: AIRDROP_ABI,
       address: contractAddress,
@@ -102,19 +129,32 @@ export function useClaimAirdrop() {
     /** Error if any */
     error,
     /** User-friendly error message */
-    errorMessage: error ? handleContractError(error) : null,
+    errorMessage: isProofMismatch
+      ? PROOF_MISMATCH_MESSAGE
+      : error
+        ? handleContractError(error)
+        : null,
     /** Transaction hash (available after write) */
     hash,
     /** Transaction confirmed successfully */
     isConfirmed,
     /** Transaction submitted, waiting for confirmation */
     isConfirming,
+    /** Whether the last claim was stopped because its proof doesn't match the campaign */
+    isProofMismatch,
     /** Transaction in progress (writing or confirming) */
     isPending: isWriting || isConfirming,
+    /** Whether the root proofs are checked against is known; `claim` refuses to send until then */
+    isRootKnown: root !== undefined,
+    /** Whether the contract's root couldn't be read and no configured root stands in for it */
+    isRootUnavailable: root === undefined && isRootError,
     /** Waiting for wallet approval */
     isWriting,
     /** Reset transaction state */
-    reset,
+    reset: () => {
+      setIsProofMismatch(false);
+      reset();
+    },
     /** Complete transaction state object */
     transactionState,
   };
@@ -1,10 +1,10 @@
 import { useReadContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import { useCampaign } from "./useCampaign";
 
 /** Reads `calculateMinFeeWei` from the airdrop contract */
 export function useClaimFee() {
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress } = useCampaign();
 
   const {
     data: claimFee = 0n,
@@ -1,6 +1,7 @@
 import type { Address } from "viem";
 import { useAccount, useReadContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import { useCampaign } from "./useCampaign";
 
 type UseClaimStatusReturn = {
   address: Address | undefined;
@@ -19,8 +20,7 @@ type UseClaimStatusReturn = {
  */
 export function useClaimStatus(index: number | undefined): UseClaimStatusReturn {
   const { address, isConnected } = useAccount();
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress } = useCampaign();
 
   const {
     data: isClaimed = false,
@@ -1,10 +1,10 @@
 import { useReadContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import { useCampaign } from "./useCampaign";
 
 /** Reads `ipfsCID` from the airdrop contract (Airdrops v3.0). */
 export function useIpfsCID() {
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress } = useCampaign();
 
   const {
     data: ipfsCID = "",
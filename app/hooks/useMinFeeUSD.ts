@@ -1,6 +1,7 @@
 import { formatUnits } from "viem";
 import { useReadContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import { useCampaign } from "./useCampaign";
 
 const USD_DECIMALS = 8;
 
@@ -9,8 +10,7 @@ const USD_DECIMALS = 8;
  * The raw value is an 8-decimal Chainlink-style USD figure; `formatted` is a $X.XX string.
  */
 export function useMinFeeUSD() {
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress } = useCampaign();
 
   const {
     data: minFeeUSD = 0n,
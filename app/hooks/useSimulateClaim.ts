@@ -1,6 +1,7 @@
 import type { Hex } from "viem";
 import { useAccount, useSimulateContract } from "wagmi";
-import { AIRDROP_ABI, getAirdropContractAddress, getChainId } from "@/lib/contracts/airdrop";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import { useCampaign } from "./useCampaign";
 
 /**
  * Simulates a claim transaction to check if it will succeed
@@ -38,8 +39,7 @@ export function useSimulateClaim(
   enabled = true,
 ) {
   const { address } = useAccount();
-  const contractAddress = getAirdropContractAddress();
-  const chainId = getChainId();
+  const { chainId, contractAddress } = useCampaign();
 
   const {
     data: simulationResult,
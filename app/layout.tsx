@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { connection } from "next/server";
 import "./globals.css";
 import { Providers } from "./providers";
 
@@ -18,15 +19,18 @@ export const metadata: Metadata = {
   title: "Sablier Airdrops Sandbox",
 };
 
-// The app is wallet-driven (wagmi + RainbowKit); skip static prerendering so wagmi/wallet
-// connectors don't fail when localStorage/window are unavailable at build time.
-export const dynamic = "force-dynamic";
-
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  // The app is wallet-driven (wagmi + RainbowKit); render on request so wagmi/wallet connectors
+  // don't fail when localStorage/window are unavailable at build time. Static exports have to be
+  // prerendered, so they skip this (segment config like `dynamic` can't depend on the build mode).
+  if (process.env.NEXT_PUBLIC_STATIC_EXPORT !== "true") {
+    await connection();
+  }
+
   return (
     <html lang="en">
       <body className={`${geistSans.variable} ${geistMono.variable} antialiased`}>
@@ -0,0 +1,200 @@
+import type { Address } from "viem";
+import type { ClaimData, ProofShard, ProofShardManifest } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import type { IndexedAirdropTree } from "@/lib/utils/airdrop-core";
+import {
+  buildAirdropTree,
+  lookupClaimData,
+  parseMerkleData,
+  verifyClaimData,
+} from "@/lib/utils/airdrop-core";
+import { CampaignMisconfiguredError, TreeUnavailableError } from "@/lib/utils/errors";
+import { fetchIpfsFile } from "@/lib/utils/ipfs";
+import { getShardFileName, SHARD_MANIFEST_FILE } from "@/lib/utils/proof-shards";
+import { proofShardManifestSchema, proofShardSchema } from "@/lib/utils/validation";
+
+/**
+ * Web Worker that computes Merkle proofs in the browser for static exports, where there is no
+ * proof API. Fetching a large tree and rebuilding it would block the UI thread, so it happens
+ * here; `static-proofs.ts` posts lookups and waits for the matching response.
+ */
+
+/**
+ * Where the worker reads proofs from. URLs are absolute: the worker can't resolve paths
+ * relative to the page.
+ */
+export type ProofWorkerSource =
+  | {
+      /** Sablier-format tree JSON at a plain URL */
+      type: "http";
+      url: string;
+    }
+  | {
+      /** Sablier-format tree JSON on IPFS, verified against its CID */
+      type: "ipfs";
+      cid: string;
+      gateways?: string[];
+      timeoutMs?: number;
+    }
+  | {
+      /** Proof shard directory written by the generator's `--shards` option */
+      type: "shards";
+      /** Directory URL, without a trailing slash */
+      baseUrl: string;
+    };
+
+export type ProofWorkerRequest = {
+  /** Echoed in the response to match it to the request */
+  id: number;
+  address: Address;
+  source: ProofWorkerSource;
+};
+
+export type ProofWorkerResponse =
+  | {
+      id: number;
+      /** Claim data, or null if the address is not a recipient */
+      claimData: ClaimData | null;
+      /** Root of the tree the proof belongs to */
+      root: string;
+    }
+  | {
+      id: number;
+      code: ApiErrorCode;
+      error: string;
+    };
+
+// Everything is cached for the lifetime of the page, keyed by URL (or CID).
+// Failed loads are dropped so the next lookup retries them.
+const trees = new Map<string, Promise<IndexedAirdropTree>>();
+const manifests = new Map<string, Promise<ProofShardManifest>>();
+const shards = new Map<string, Promise<ProofShard>>();
+
+function memoize<T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>) {
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+  const promise = load();
+  cache.set(key, promise);
+  promise.catch(() => cache.delete(key));
+  return promise;
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+  }
+  return response.text();
+}
+
+/**
+ * Loads a tree from a URL or IPFS and checks it against the root in its payload.
+ *
+ * @throws TreeUnavailableError if the tree can't be fetched or parsed
+ * @throws CampaignMisconfiguredError if the tree doesn't match its payload root
+ */
+function loadTree(source: Exclude<ProofWorkerSource, { type: "shards" }>) {
+  const key = source.type === "http" ? source.url : `ipfs:${source.cid}`;
+  const description = source.type === "http" ? `URL ${source.url}` : `IPFS ${source.cid}`;
+
+  return memoize(trees, key, async () => {
+    let indexed: IndexedAirdropTree;
+    let payloadRoot: string;
+    try {
+      const raw =
+        source.type === "http"
+          ? await fetchText(source.url)
+          : new TextDecoder().decode(
+              await fetchIpfsFile(source.cid, {
+                gateways: source.gateways,
+                timeoutMs: source.timeoutMs,
+              }),
+            );
+      const data = parseMerkleData(raw, description);
+      indexed = buildAirdropTree(data);
+      payloadRoot = data.root;
+    } catch (loadError) {
+      throw new TreeUnavailableError(`Could not load Merkle tree from ${description}`, {
+        cause: loadError,
+      });
+    }
+
+    if (indexed.tree.root.toLowerCase() !== payloadRoot.toLowerCase()) {
+      throw new CampaignMisconfiguredError(
+        `Tree root ${indexed.tree.root} does not match payload root ${payloadRoot}`,
+      );
+    }
+    return indexed;
+  });
+}
+
+/**
+ * Fetches and parses a JSON file of a shard directory.
+ * @throws TreeUnavailableError if it can't be fetched or parsed
+ */
+async function fetchShardFile<T>(url: string, parse: (json: unknown) => T): Promise<T> {
+  try {
+    return parse(JSON.parse(await fetchText(url)));
+  } catch (loadError) {
+    throw new TreeUnavailableError(`Could not load proof shard file ${url}`, { cause: loadError });
+  }
+}
+
+/**
+ * Looks up an address in a proof shard directory, loading only the manifest and one shard.
+ * Shards aren't content-addressed, so every proof is verified against the manifest root.
+ *
+ * @throws TreeUnavailableError if the manifest or shard can't be loaded
+ * @throws CampaignMisconfiguredError if a proof doesn't verify
+ */
+async function lookupInShards(baseUrl: string, address: Address) {
+  const manifest = await memoize(manifests, baseUrl, () =>
+    fetchShardFile(`${baseUrl}/${SHARD_MANIFEST_FILE}`, (json) =>
+      proofShardManifestSchema.parse(json),
+    ),
+  );
+  const shardUrl = `${baseUrl}/${getShardFileName(address, manifest.prefix_length)}`;
+  const shard = await memoize(shards, shardUrl, () =>
+    fetchShardFile(shardUrl, (json) => proofShardSchema.parse(json)),
+  );
+
+  const claimData = shard[address.toLowerCase()] ?? null;
+  if (claimData && !verifyClaimData(manifest.root, address, claimData)) {
+    throw new CampaignMisconfiguredError(
+      `Proof shard entry for ${address} does not verify against root ${manifest.root}`,
+    );
+  }
+  return { claimData, root: manifest.root };
+}
+
+async function lookup({ address, source }: ProofWorkerRequest) {
+  if (source.type === "shards") {
+    return lookupInShards(source.baseUrl, address);
+  }
+  const indexed = await loadTree(source);
+  return { claimData: lookupClaimData(indexed, address), root: indexed.tree.root };
+}
+
+function toErrorCode(error: unknown): ApiErrorCode {
+  if (error instanceof CampaignMisconfiguredError) return ApiErrorCode.ROOT_MISMATCH;
+  if (error instanceof TreeUnavailableError) return ApiErrorCode.TREE_UNAVAILABLE;
+  return ApiErrorCode.INTERNAL_ERROR;
+}
+
+self.addEventListener("message", async (event: MessageEvent<ProofWorkerRequest>) => {
+  const { id } = event.data;
+  let response: ProofWorkerResponse;
+  try {
+    response = { id, ...(await lookup(event.data)) };
+  } catch (error) {
+    console.error("Proof lookup failed:", error);
+    response = {
+      code: toErrorCode(error),
+      error: error instanceof Error ? error.message : "Proof lookup failed",
+      id,
+    };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,176 @@
+import type { Address, Hex, PublicClient } from "viem";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import type { AirdropCampaign, ProofLookup } from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { resolveAddressOrName } from "@/lib/utils/address";
+import { CampaignMisconfiguredError } from "@/lib/utils/errors";
+import { proofQuerySchema } from "@/lib/utils/validation";
+import type { ProofWorkerRequest, ProofWorkerResponse, ProofWorkerSource } from "./proof.worker";
+
+/** What the lookup needs from the campaign chain's public client */
+type LookupClient = Pick<PublicClient, "getEnsAddress" | "readContract">;
+
+type PendingRequest = {
+  resolve: (response: ProofWorkerResponse) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * Whether the app was built as a static export (`NEXT_PUBLIC_STATIC_EXPORT=true`). There are
+ * no API routes then, so proofs are looked up in the browser.
+ */
+export function isStaticExport(): boolean {
+  return process.env.NEXT_PUBLIC_STATIC_EXPORT === "true";
+}
+
+// One worker per page, started on the first lookup so its tree cache is shared by all of them.
+let worker: Worker | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, PendingRequest>();
+
+function getWorker(): Worker {
+  if (worker) {
+    return worker;
+  }
+
+  const started = new Worker(new URL("./proof.worker.ts", import.meta.url), { type: "module" });
+  started.addEventListener("message", (event: MessageEvent<ProofWorkerResponse>) => {
+    pendingRequests.get(event.data.id)?.resolve(event.data);
+    pendingRequests.delete(event.data.id);
+  });
+  started.addEventListener("error", (event) => {
+    // The worker failed to load or crashed: fail its lookups and start a fresh one next time
+    for (const request of pendingRequests.values()) {
+      request.reject(new Error(event.message || "Proof worker failed"));
+    }
+    pendingRequests.clear();
+    started.terminate();
+    worker = undefined;
+  });
+
+  worker = started;
+  return started;
+}
+
+function requestProof(address: Address, source: ProofWorkerSource): Promise<ProofWorkerResponse> {
+  const target = getWorker();
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { reject, resolve });
+    target.postMessage({ address, id, source } satisfies ProofWorkerRequest);
+  });
+}
+
+/** Resolves a configured URL against the page, so paths to static assets work under any base path */
+function toAbsoluteUrl(url: string): string {
+  return new URL(url, document.baseURI).href.replace(/\/+$/, "");
+}
+
+/**
+ * Picks where the worker reads the campaign's proofs from: its proof shards if configured,
+ * else its tree. Local files are server-only, so they can't be used in a static export.
+ *
+ * @throws Error if the campaign has no source the browser can read
+ */
+async function getWorkerSource(
+  campaign: AirdropCampaign,
+  client: LookupClient,
+): Promise<ProofWorkerSource> {
+  if (campaign.proofShards) {
+    if (campaign.proofShards.type !== "http") {
+      throw new Error(`Campaign "${campaign.id}" proof shards must be served over HTTP`);
+    }
+    return { baseUrl: toAbsoluteUrl(campaign.proofShards.baseUrl), type: "shards" };
+  }
+
+  const config = campaign.treeSource;
+  switch (config?.type) {
+    case "http":
+      return { type: "http", url: toAbsoluteUrl(config.url) };
+    case "ipfs": {
+      const cid =
+        config.cid ??
+        (campaign.contractAddress
+          ? await client.readContract({
+              abi: AIRDROP_ABI,
+              address: campaign.contractAddress,
+              functionName: "ipfsCID",
+            })
+          : undefined);
+      if (!cid) {
+        throw new Error(`Campaign "${campaign.id}" has no IPFS CID configured or on-chain`);
+      }
+      return { cid, gateways: config.gateways, timeoutMs: config.timeoutMs, type: "ipfs" };
+    }
+    default:
+      throw new Error(`Campaign "${campaign.id}" has no Merkle tree source the browser can read`);
+  }
+}
+
+/**
+ * Checks the tree's root against the configured root and the contract's `MERKLE_ROOT`, like
+ * the server does before serving proofs.
+ *
+ * @throws CampaignMisconfiguredError if they differ
+ */
+async function assertRootMatches(
+  campaign: AirdropCampaign,
+  client: LookupClient,
+  treeRoot: string,
+): Promise<void> {
+  const roots: Hex[] = [];
+  if (campaign.merkleRoot) {
+    roots.push(campaign.merkleRoot);
+  }
+  if (campaign.contractAddress) {
+    roots.push(
+      await client.readContract({
+        abi: AIRDROP_ABI,
+        address: campaign.contractAddress,
+        functionName: "MERKLE_ROOT",
+      }),
+    );
+  }
+
+  if (roots.some((root) => root.toLowerCase() !== treeRoot.toLowerCase())) {
+    throw new CampaignMisconfiguredError();
+  }
+}
+
+/**
+ * Looks up a proof without the proof API: ENS names are resolved on the campaign's chain, then
+ * a Web Worker fetches the campaign's tree (or the address's proof shard) from IPFS or static
+ * assets and computes the proof. Claim status is left undefined, so it is read from the contract.
+ *
+ * @param client - Public client for the campaign's chain
+ * @throws CampaignMisconfiguredError if the tree doesn't match the campaign's Merkle root
+ */
+export async function lookupStaticProof(
+  campaign: AirdropCampaign,
+  addressOrName: string,
+  client: LookupClient | undefined,
+): Promise<ProofLookup> {
+  if (!client) {
+    throw new Error(`Chain ${campaign.chainId} is not configured`);
+  }
+  if (!proofQuerySchema.shape.address.safeParse(addressOrName).success) {
+    throw new Error("Invalid address");
+  }
+
+  const address = await resolveAddressOrName(client, addressOrName);
+  if (!address) {
+    return { proof: null };
+  }
+
+  const response = await requestProof(address, await getWorkerSource(campaign, client));
+  if ("code" in response) {
+    if (response.code === ApiErrorCode.ROOT_MISMATCH) {
+      throw new CampaignMisconfiguredError();
+    }
+    throw new Error(response.error);
+  }
+
+  await assertRootMatches(campaign, client, response.root);
+  return { address, proof: response.claimData };
+}
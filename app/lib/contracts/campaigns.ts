@@ -0,0 +1,74 @@
+import type { Hex } from "viem";
+import type {
+  AirdropCampaign,
+  ProofShardsConfig,
+  TreeSourceConfig,
+} from "@/lib/types/airdrop.types";
+import { getAirdropContractAddress, getChainId } from "./airdrop";
+
+/** Id of the campaign configured through environment variables; served at `/` */
+export const DEFAULT_CAMPAIGN_ID = "default";
+
+/**
+ * Picks the default campaign's public tree source from the environment.
+ * An IPFS CID wins over a plain URL. With neither set, the tree is fetched from IPFS using the
+ * contract's `ipfsCID`. The server may override it with a local file (see campaign-config.ts).
+ */
+function getDefaultTreeSource(): TreeSourceConfig {
+  const cid = process.env.NEXT_PUBLIC_MERKLE_TREE_IPFS_CID || undefined;
+  if (!cid && process.env.NEXT_PUBLIC_MERKLE_TREE_IPFS_URL) {
+    return { type: "http", url: process.env.NEXT_PUBLIC_MERKLE_TREE_IPFS_URL };
+  }
+
+  const gateways = process.env.NEXT_PUBLIC_IPFS_GATEWAYS?.split(",")
+    .map((gateway) => gateway.trim())
+    .filter(Boolean);
+  return { cid, gateways: gateways?.length ? gateways : undefined, type: "ipfs" };
+}
+
+/**
+ * Picks the default campaign's hosted proof shards from the environment, if any.
+ * The server may override them with a local directory (see campaign-config.ts).
+ */
+function getDefaultProofShards(): ProofShardsConfig | undefined {
+  if (process.env.NEXT_PUBLIC_MERKLE_PROOF_SHARDS_URL) {
+    return { baseUrl: process.env.NEXT_PUBLIC_MERKLE_PROOF_SHARDS_URL, type: "http" };
+  }
+  return undefined;
+}
+
+/**
+ * Campaign registry: campaign id -> campaign config.
+ * Every entry is served at `/[campaignId]` and `/api/airdrop/[campaignId]/*`.
+ *
+ * The registry is also evaluated in the browser, so it may only hold public settings
+ * (`NEXT_PUBLIC_*` variables and literals). Server-only settings (local files, the deployment
+ * block) go in `app/lib/server/campaign-config.ts`, which the API merges over these entries.
+ *
+ * CUSTOMIZATION POINT: Add one entry per airdrop to serve several campaigns from one deployment
+ */
+const CAMPAIGNS: Record<string, AirdropCampaign> = {
+  [DEFAULT_CAMPAIGN_ID]: {
+    chainId: getChainId(),
+    contractAddress: getAirdropContractAddress(),
+    description:
+      "Thank you for being an early supporter. Connect your wallet to claim your tokens.",
+    id: DEFAULT_CAMPAIGN_ID,
+    merkleRoot: (process.env.NEXT_PUBLIC_MERKLE_ROOT || undefined) as Hex | undefined,
+    name: "Community Airdrop",
+    proofShards: getDefaultProofShards(),
+    tokenDecimals: 18,
+    tokenSymbol: "TOKEN",
+    treeSource: getDefaultTreeSource(),
+  },
+};
+
+/** Returns the campaign registered under `id`, or undefined if there is none. */
+export function getCampaign(id: string): AirdropCampaign | undefined {
+  return Object.hasOwn(CAMPAIGNS, id) ? CAMPAIGNS[id] : undefined;
+}
+
+/** Returns the ids of every registered campaign. */
+export function listCampaignIds(): string[] {
+  return Object.keys(CAMPAIGNS);
+}
@@ -0,0 +1,156 @@
+import type { Address, Hex } from "viem";
+import { AIRDROP_ABI } from "@/lib/contracts/airdrop";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+import { getPublicClient } from "./rpc";
+
+/** Returns the campaign contract address, or throws if the campaign has none configured. */
+function requireContractAddress(campaign: AirdropCampaign): Address {
+  if (!campaign.contractAddress) {
+    throw new Error(`Contract address is not configured for campaign "${campaign.id}"`);
+  }
+  return campaign.contractAddress;
+}
+
+/** Reads `ipfsCID` from the campaign contract (Airdrops v3.0). */
+export async function readIpfsCID(campaign: AirdropCampaign): Promise<string> {
+  return getPublicClient(campaign.chainId).readContract({
+    abi: AIRDROP_ABI,
+    address: requireContractAddress(campaign),
+    functionName: "ipfsCID",
+  });
+}
+
+/** Reads `MERKLE_ROOT` from the campaign contract. */
+export async function readMerkleRoot(campaign: AirdropCampaign): Promise<Hex> {
+  return getPublicClient(campaign.chainId).readContract({
+    abi: AIRDROP_ABI,
+    address: requireContractAddress(campaign),
+    functionName: "MERKLE_ROOT",
+  });
+}
+
+/** Reads `EXPIRATION` (Unix seconds, 0 if the campaign never expires) from the campaign contract. */
+export async function readExpiration(campaign: AirdropCampaign): Promise<number> {
+  const expiration = await getPublicClient(campaign.chainId).readContract({
+    abi: AIRDROP_ABI,
+    address: requireContractAddress(campaign),
+    functionName: "EXPIRATION",
+  });
+  return Number(expiration);
+}
+
+/**
+ * Reads `hasClaimed` for each leaf index, batched through Multicall3.
+ * @returns Claim flags in the same order as `indexes`
+ */
+export async function readHasClaimed(
+  campaign: AirdropCampaign,
+  indexes: readonly bigint[],
+): Promise<boolean[]> {
+  const address = requireContractAddress(campaign);
+  const results = await getPublicClient(campaign.chainId).multicall({
+    allowFailure: false,
+    contracts: indexes.map((index) => ({
+      abi: AIRDROP_ABI,
+      address,
+      args: [index],
+      functionName: "hasClaimed",
+    })),
+  });
+  return results.map(Boolean);
+}
+
+/** Most blocks asked for in one `eth_getLogs` request; providers cap the range */
+const LOG_BLOCK_RANGE = 5_000n;
+
+/** A `ClaimInstant` log, as far as the server needs it */
+export type ClaimLog = {
+  index: bigint;
+  recipient: Address;
+  amount: bigint;
+  /** Missing only for logs of pending blocks */
+  transactionHash?: Hex;
+};
+
+/** Reads the latest block number of the campaign's chain. */
+export async function readBlockNumber(campaign: AirdropCampaign): Promise<bigint> {
+  return getPublicClient(campaign.chainId).getBlockNumber();
+}
+
+/**
+ * Reads `ClaimInstant` logs from `fromBlock` to `toBlock` (inclusive), optionally for one
+ * recipient, in windows of at most LOG_BLOCK_RANGE blocks. A window the RPC rejects (range or
+ * result limits, timeouts) is halved and retried.
+ *
+ * @returns An iterator over each window's logs and the last block it covers, in block order
+ * @throws Error if the logs of a single block can't be read
+ */
+export async function* readClaimLogs(
+  campaign: AirdropCampaign,
+  fromBlock: bigint,
+  toBlock: bigint,
+  recipient?: Address,
+): AsyncGenerator<{ logs: ClaimLog[]; toBlock: bigint }> {
+  const client = getPublicClient(campaign.chainId);
+  const address = requireContractAddress(campaign);
+  let range = LOG_BLOCK_RANGE;
+
+  for (let start = fromBlock; start <= toBlock; ) {
+    const end = start + range - 1n < toBlock ? start + range - 1n : toBlock;
+    let logs: ClaimLog[];
+    try {
+      const events = await client.getContractEvents({
+        abi: AIRDROP_ABI,
+        address,
+        args: recipient ? { recipient } : undefined,
+        eventName: "ClaimInstant",
+        fromBlock: start,
+        strict: true,
+        toBlock: end,
+      });
+      logs = events.map(({ args, transactionHash }) => ({
+        amount: BigInt(args.amount),
+        index: BigInt(args.index),
+        recipient: args.recipient,
+        transactionHash: transactionHash ?? undefined,
+      }));
+    } catch (error) {
+      if (range === 1n) {
+        throw new Error(`Could not read the claim logs of block ${start}`, { cause: error });
+      }
+      range /= 2n;
+      continue;
+    }
+
+    yield { logs, toBlock: end };
+    start = end + 1n;
+  }
+}
+
+/**
+ * Finds the transaction that claimed a leaf by scanning the recipient's `ClaimInstant` logs
+ * from `fromBlock` (the deployment block, or where an earlier scan stopped) towards the latest
+ * block, reading at most `maxBlocks` blocks so one call's RPC work stays bounded.
+ *
+ * @returns The transaction hash if a matching claim was found, and the last block scanned
+ */
+export async function findClaimTxHash(
+  campaign: AirdropCampaign,
+  index: bigint,
+  recipient: Address,
+  fromBlock: bigint,
+  maxBlocks: bigint,
+): Promise<{ txHash?: Hex; scannedTo: bigint }> {
+  const latest = await readBlockNumber(campaign);
+  const last = fromBlock + maxBlocks - 1n < latest ? fromBlock + maxBlocks - 1n : latest;
+  if (last < fromBlock) {
+    return { scannedTo: fromBlock - 1n };
+  }
+  for await (const { logs, toBlock } of readClaimLogs(campaign, fromBlock, last, recipient)) {
+    const claim = logs.find((log) => log.index === index);
+    if (claim) {
+      return { scannedTo: toBlock, txHash: claim.transactionHash };
+    }
+  }
+  return { scannedTo: last };
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { CampaignMisconfiguredError, TreeUnavailableError } from "@/lib/utils/errors";
+
+/**
+ * Error body shared by every airdrop API response type
+ */
+type ApiErrorBody = {
+  error: string;
+  code: ApiErrorCode;
+};
+
+/** HTTP status and default message per error code */
+export const API_ERRORS: Record<ApiErrorCode, { status: number; message: string }> = {
+  [ApiErrorCode.CAMPAIGN_NOT_FOUND]: { message: "Campaign not found", status: 404 },
+  [ApiErrorCode.INTERNAL_ERROR]: { message: "Internal server error", status: 500 },
+  [ApiErrorCode.INVALID_ADDRESS]: { message: "Invalid address", status: 400 },
+  [ApiErrorCode.INVALID_REQUEST]: { message: "Invalid request body", status: 400 },
+  [ApiErrorCode.NAME_NOT_RESOLVED]: { message: "Name not resolved", status: 404 },
+  [ApiErrorCode.NOT_ELIGIBLE]: { message: "Address not eligible", status: 404 },
+  [ApiErrorCode.RATE_LIMITED]: { message: "Too many requests", status: 429 },
+  [ApiErrorCode.ROOT_MISMATCH]: { message: "Campaign misconfigured", status: 503 },
+  [ApiErrorCode.TREE_UNAVAILABLE]: { message: "Merkle tree unavailable", status: 503 },
+  [ApiErrorCode.UNAUTHORIZED]: { message: "Unauthorized", status: 401 },
+};
+
+/**
+ * Builds an error response `{ error, code, ...extra }` with the code's HTTP status
+ *
+ * @param extra - Additional fields, e.g. `meta` for NOT_ELIGIBLE, or `error` to override the message
+ */
+export function apiError<Extra extends object = object>(
+  code: ApiErrorCode,
+  headers?: HeadersInit,
+  extra?: Extra,
+): NextResponse<ApiErrorBody & Extra> {
+  const { status, message } = API_ERRORS[code];
+  return NextResponse.json({ code, error: message, ...(extra as Extra) }, { headers, status });
+}
+
+/**
+ * Maps an error thrown while handling a request to an error response.
+ * Logs the full error server-side; never echo raw error details to the client to avoid
+ * leaking IPFS URLs, env var names, or stack-derived info.
+ *
+ * @param context - What the route was doing, for the log line
+ */
+export function handleApiError(
+  error: unknown,
+  context: string,
+  headers?: HeadersInit,
+): NextResponse<ApiErrorBody> {
+  if (error instanceof CampaignMisconfiguredError) {
+    console.error(error.message);
+    return apiError(ApiErrorCode.ROOT_MISMATCH, headers);
+  }
+
+  console.error(`Error ${context}:`, error);
+  return apiError(
+    error instanceof TreeUnavailableError
+      ? ApiErrorCode.TREE_UNAVAILABLE
+      : ApiErrorCode.INTERNAL_ERROR,
+    headers,
+  );
+}
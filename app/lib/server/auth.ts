@@ -0,0 +1,32 @@
+import { timingSafeEqual } from "node:crypto";
+import type { NextRequest } from "next/server";
+
+/** Compares two secrets in constant time */
+function secretsEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <secret>`.
+ * Always false when no secret is configured, so a missing env var never opens the endpoint.
+ */
+export function hasBearerToken(request: NextRequest, secret: string | undefined): boolean {
+  const header = request.headers.get("authorization");
+  if (!secret || !header?.startsWith("Bearer ")) {
+    return false;
+  }
+  return secretsEqual(header.slice("Bearer ".length), secret);
+}
+
+/**
+ * Returns the request's `X-API-Key` header if it matches one of `keys`, else undefined.
+ */
+export function findApiKey(request: NextRequest, keys: readonly string[]): string | undefined {
+  const header = request.headers.get("x-api-key");
+  if (!header) {
+    return undefined;
+  }
+  return keys.find((key) => secretsEqual(header, key));
+}
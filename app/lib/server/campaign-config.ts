@@ -0,0 +1,40 @@
+import { DEFAULT_CAMPAIGN_ID } from "@/lib/contracts/campaigns";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+
+/** Campaign settings only the server knows; each one set replaces the registry entry's */
+export type CampaignServerConfig = Partial<
+  Pick<AirdropCampaign, "deploymentBlock" | "proofShards" | "treeSource">
+>;
+
+/**
+ * Server-only campaign settings, keyed by campaign id like the registry in
+ * `app/lib/contracts/campaigns.ts`. They read non-public environment variables, so this module
+ * must never be imported by client components.
+ *
+ * CUSTOMIZATION POINT: Add an entry for a campaign that loads local files or counts claims
+ */
+const CAMPAIGN_SERVER_CONFIG: Record<string, CampaignServerConfig> = {
+  [DEFAULT_CAMPAIGN_ID]: {
+    deploymentBlock: Number(process.env.AIRDROP_DEPLOYMENT_BLOCK) || undefined,
+    // Local files win over the public CID, URL and shard base URL
+    proofShards: process.env.MERKLE_PROOF_SHARDS_DIR
+      ? { dir: process.env.MERKLE_PROOF_SHARDS_DIR, type: "file" }
+      : undefined,
+    treeSource: process.env.MERKLE_TREE_FILE
+      ? { path: process.env.MERKLE_TREE_FILE, type: "file" }
+      : undefined,
+  },
+};
+
+/** Returns a registry campaign with its server-only settings applied. */
+export function withServerConfig(campaign: AirdropCampaign): AirdropCampaign {
+  const config = Object.hasOwn(CAMPAIGN_SERVER_CONFIG, campaign.id)
+    ? CAMPAIGN_SERVER_CONFIG[campaign.id]
+    : {};
+  return {
+    ...campaign,
+    deploymentBlock: config.deploymentBlock ?? campaign.deploymentBlock,
+    proofShards: config.proofShards ?? campaign.proofShards,
+    treeSource: config.treeSource ?? campaign.treeSource,
+  };
+}
@@ -0,0 +1,192 @@
+import type {
+  AirdropCampaign,
+  CampaignStats,
+  ProofShardManifest,
+  TreeMeta,
+} from "@/lib/types/airdrop.types";
+import { readBlockNumber, readClaimLogs, readExpiration, readHasClaimed } from "./airdrop-contract";
+import { getMerkleTree, getTreeMeta } from "./merkle-tree";
+import { getShardManifest } from "./proof-shards";
+
+type CachedTree = Awaited<ReturnType<typeof getMerkleTree>>;
+
+type CachedStats = {
+  /** Tree (or shard manifest) the stats were computed from; reloading it invalidates them */
+  tree: CachedTree | ProofShardManifest;
+  stats: CampaignStats;
+  /** When the on-chain figures should be read again (ms since epoch) */
+  expiresAt: number;
+};
+
+/** How long claim counts are served before the contract is read again */
+const STATS_TTL_MS = 60_000;
+
+/**
+ * Most leaves whose `hasClaimed` is read in one go, for campaigns without a deployment block.
+ * Larger campaigns need `deploymentBlock`, so claims can be counted from logs instead.
+ */
+const MAX_MULTICALL_LEAVES = 5_000;
+
+// Stats per campaign id; counting claims is too heavy to do per request.
+const cache = new Map<string, CachedStats>();
+
+/** Claims counted from `ClaimInstant` logs up to `scannedTo` */
+type ClaimTally = {
+  claimedCount: number;
+  claimedAmount: bigint;
+  scannedTo: bigint;
+};
+
+// Tallies per campaign id, extended with the blocks since the last read. Logs don't depend on
+// the tree, so tallies outlive tree reloads.
+const tallies = new Map<string, ClaimTally>();
+
+// Log scans in progress per campaign id, so concurrent requests don't count a block twice.
+const scans = new Map<string, Promise<ClaimTally>>();
+
+/**
+ * Brings a campaign's claim tally up to the latest block, reading only the logs since the last
+ * scan. Progress is kept after each window, so a failed scan resumes where it stopped.
+ */
+function countClaims(campaign: AirdropCampaign, deploymentBlock: number): Promise<ClaimTally> {
+  const inFlight = scans.get(campaign.id);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const scan = (async () => {
+    let tally = tallies.get(campaign.id) ?? {
+      claimedAmount: 0n,
+      claimedCount: 0,
+      scannedTo: BigInt(deploymentBlock) - 1n,
+    };
+    const latest = await readBlockNumber(campaign);
+    for await (const { logs, toBlock } of readClaimLogs(campaign, tally.scannedTo + 1n, latest)) {
+      tally = {
+        claimedAmount: logs.reduce((sum, log) => sum + log.amount, tally.claimedAmount),
+        claimedCount: tally.claimedCount + logs.length,
+        scannedTo: toBlock,
+      };
+      tallies.set(campaign.id, tally);
+    }
+    return tally;
+  })().finally(() => scans.delete(campaign.id));
+
+  scans.set(campaign.id, scan);
+  return scan;
+}
+
+/**
+ * Counts claims by reading `hasClaimed` for every leaf.
+ */
+async function countClaimedLeaves(
+  campaign: AirdropCampaign,
+  leaves: ReadonlyArray<{ index: bigint; amount: bigint }>,
+): Promise<Pick<ClaimTally, "claimedAmount" | "claimedCount">> {
+  const claimed = await readHasClaimed(
+    campaign,
+    leaves.map((leaf) => leaf.index),
+  );
+
+  let claimedCount = 0;
+  let claimedAmount = 0n;
+  for (const [position, leaf] of leaves.entries()) {
+    if (claimed[position]) {
+      claimedCount++;
+      claimedAmount += leaf.amount;
+    }
+  }
+  return { claimedAmount, claimedCount };
+}
+
+/**
+ * Reads the expiration and claim progress from the contract. Claims are counted from
+ * `ClaimInstant` logs when the campaign has a deployment block, else with `hasClaimed` for
+ * up to MAX_MULTICALL_LEAVES leaves; otherwise (or for sharded campaigns, whose leaves aren't
+ * loaded) claim progress is null.
+ *
+ * Failures are logged and reported as null so the tree figures can still be served.
+ */
+async function readOnChainStats(
+  campaign: AirdropCampaign,
+  leaves?: ReadonlyArray<{ index: bigint; amount: bigint }>,
+): Promise<Pick<CampaignStats, "claimedAmount" | "claimedCount" | "expiration">> {
+  if (!campaign.contractAddress) {
+    return { claimedAmount: null, claimedCount: null, expiration: null };
+  }
+
+  try {
+    const [expiration, claims] = await Promise.all([
+      readExpiration(campaign),
+      campaign.deploymentBlock !== undefined
+        ? countClaims(campaign, campaign.deploymentBlock)
+        : leaves && leaves.length <= MAX_MULTICALL_LEAVES
+          ? countClaimedLeaves(campaign, leaves)
+          : undefined,
+    ]);
+
+    return {
+      claimedAmount: claims ? claims.claimedAmount.toString() : null,
+      claimedCount: claims ? claims.claimedCount : null,
+      expiration,
+    };
+  } catch (error) {
+    console.warn(`Could not read on-chain stats for campaign "${campaign.id}":`, error);
+    return { claimedAmount: null, claimedCount: null, expiration: null };
+  }
+}
+
+/**
+ * Returns a campaign's recipient count and total allocation (from its Merkle tree) plus its
+ * expiration and claim progress (from the contract). Cached for STATS_TTL_MS per tree.
+ *
+ * Campaigns served from proof shards take the tree figures from the shard manifest, and only
+ * report claim progress when it can be counted from logs.
+ *
+ * @throws CampaignMisconfiguredError if the tree doesn't match the campaign's Merkle root
+ */
+export async function getCampaignStats(
+  campaign: AirdropCampaign,
+): Promise<{ stats: CampaignStats; meta: TreeMeta }> {
+  if (campaign.proofShards) {
+    const { manifest, meta } = await getShardManifest(campaign, campaign.proofShards);
+
+    const cached = cache.get(campaign.id);
+    if (cached && cached.tree === manifest && Date.now() < cached.expiresAt) {
+      return { meta, stats: cached.stats };
+    }
+
+    const stats: CampaignStats = {
+      recipients: manifest.number_of_recipients,
+      totalAmount: manifest.total_amount,
+      ...(await readOnChainStats(campaign)),
+    };
+
+    cache.set(campaign.id, { expiresAt: Date.now() + STATS_TTL_MS, stats, tree: manifest });
+    return { meta, stats };
+  }
+
+  const merkleTree = await getMerkleTree(campaign);
+  const meta = getTreeMeta(merkleTree);
+
+  const cached = cache.get(campaign.id);
+  if (cached && cached.tree === merkleTree && Date.now() < cached.expiresAt) {
+    return { meta, stats: cached.stats };
+  }
+
+  // Leaf structure: [index, address, amount]
+  const leaves = Array.from(merkleTree.tree.entries(), ([, [index, , amount]]) => ({
+    amount: BigInt(amount),
+    index: BigInt(index),
+  }));
+  const totalAmount = leaves.reduce((sum, leaf) => sum + leaf.amount, 0n);
+
+  const stats: CampaignStats = {
+    recipients: leaves.length,
+    totalAmount: totalAmount.toString(),
+    ...(await readOnChainStats(campaign, leaves)),
+  };
+
+  cache.set(campaign.id, { expiresAt: Date.now() + STATS_TTL_MS, stats, tree: merkleTree });
+  return { meta, stats };
+}
@@ -0,0 +1,20 @@
+import { getCampaign } from "@/lib/contracts/campaigns";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+import { withServerConfig } from "./campaign-config";
+
+/** Second argument passed to route handlers under `/api/airdrop/[campaignId]` */
+export type CampaignRouteContext = {
+  params: Promise<{ campaignId: string }>;
+};
+
+/**
+ * Resolves the campaign addressed by the route, with its server-only settings applied,
+ * or undefined if it isn't registered.
+ */
+export async function resolveCampaign({
+  params,
+}: CampaignRouteContext): Promise<AirdropCampaign | undefined> {
+  const { campaignId } = await params;
+  const campaign = getCampaign(campaignId);
+  return campaign && withServerConfig(campaign);
+}
@@ -0,0 +1,93 @@
+import type { Address, Hex } from "viem";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+import { findClaimTxHash, readHasClaimed } from "./airdrop-contract";
+
+export type OnChainClaimStatus = {
+  /** Whether `hasClaimed(index)` is true */
+  claimed: boolean;
+  /** Claim transaction, when it could be found */
+  claimTxHash?: Hex;
+};
+
+/** How long an unclaimed status is served before the contract is read again */
+const CLAIM_STATUS_TTL_MS = 15_000;
+
+/**
+ * Most blocks one lookup searches for a claim transaction (10 log windows), so a request for an
+ * old campaign doesn't wait on a scan from its deployment block; later lookups continue the search
+ */
+const MAX_SCAN_BLOCKS_PER_LOOKUP = 50_000n;
+
+type CachedStatus = {
+  status: OnChainClaimStatus;
+  expiresAt: number;
+  /** Last block searched for the claim transaction, so the next search starts after it */
+  scannedTo?: bigint;
+};
+
+// Status per campaign id and leaf index. A claim with a known transaction can't be undone, so
+// those entries never expire; everything else is re-read after CLAIM_STATUS_TTL_MS. A claim
+// whose transaction wasn't found continues the search from the last block scanned.
+const cache = new Map<string, CachedStatus>();
+
+/**
+ * Reads whether a leaf has been claimed and, if so, tries to find the claim transaction
+ * (only when the campaign's `deploymentBlock` is configured). Each call searches at most
+ * MAX_SCAN_BLOCKS_PER_LOOKUP blocks, so the hash may only show up on a later call.
+ *
+ * @returns The status, or undefined if the campaign has no contract or the read failed
+ */
+export async function getClaimStatus(
+  campaign: AirdropCampaign,
+  index: number,
+  recipient: Address,
+): Promise<OnChainClaimStatus | undefined> {
+  if (!campaign.contractAddress) {
+    return undefined;
+  }
+
+  const key = `${campaign.id}:${index}`;
+  const cached = cache.get(key);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.status;
+  }
+
+  // A claim can't be undone, so only an unclaimed leaf needs `hasClaimed` read again
+  let status: OnChainClaimStatus;
+  if (cached?.status.claimed) {
+    status = { claimed: true };
+  } else {
+    try {
+      const [claimed] = await readHasClaimed(campaign, [BigInt(index)]);
+      status = { claimed: Boolean(claimed) };
+    } catch (error) {
+      console.warn(`Could not read claim status for campaign "${campaign.id}":`, error);
+      return undefined;
+    }
+  }
+
+  let scannedTo = cached?.scannedTo;
+  if (status.claimed && campaign.deploymentBlock !== undefined) {
+    try {
+      const found = await findClaimTxHash(
+        campaign,
+        BigInt(index),
+        recipient,
+        scannedTo === undefined ? BigInt(campaign.deploymentBlock) : scannedTo + 1n,
+        MAX_SCAN_BLOCKS_PER_LOOKUP,
+      );
+      status.claimTxHash = found.txHash;
+      scannedTo = found.scannedTo;
+    } catch (error) {
+      console.warn(`Could not look up claim transaction for campaign "${campaign.id}":`, error);
+    }
+  }
+
+  const isFinal = status.claimTxHash !== undefined;
+  cache.set(key, {
+    expiresAt: isFinal ? Number.POSITIVE_INFINITY : Date.now() + CLAIM_STATUS_TTL_MS,
+    scannedTo,
+    status,
+  });
+  return status;
+}
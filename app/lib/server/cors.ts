@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Headers attached to every airdrop API response.
+ * The API is public so that external integrations can call it from any origin.
+ */
+export const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Expose-Headers":
+    "Retry-After, RateLimit-Limit, RateLimit-Remaining, RateLimit-Reset",
+} as const;
+
+/**
+ * Builds the response for a CORS preflight (OPTIONS) request
+ * @param methods - HTTP methods the route accepts, besides OPTIONS
+ */
+export function corsPreflight(methods: readonly string[]): NextResponse {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      ...CORS_HEADERS,
+      "Access-Control-Allow-Headers": "Content-Type, X-API-Key",
+      "Access-Control-Allow-Methods": [...methods, "OPTIONS"].join(", "),
+    },
+  });
+}
@@ -0,0 +1,17 @@
+import type { Address } from "viem";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+import { resolveAddressOrName } from "@/lib/utils/address";
+import { getPublicClient } from "./rpc";
+
+/**
+ * Turns an address or ENS name into a checksummed address.
+ * Names are resolved through the ENS resolver on the campaign's chain.
+ *
+ * @returns The address, or null if the name is invalid or has no address record
+ */
+export async function resolveAddress(
+  campaign: AirdropCampaign,
+  addressOrName: string,
+): Promise<Address | null> {
+  return resolveAddressOrName(getPublicClient(campaign.chainId), addressOrName);
+}
@@ -0,0 +1,230 @@
+import type { Hex } from "viem";
+import type { AirdropCampaign, IpfsMerkleData, TreeMeta } from "@/lib/types/airdrop.types";
+import type { IndexedAirdropTree } from "@/lib/utils/airdrop-core";
+import { buildAirdropTree } from "@/lib/utils/airdrop-core";
+import { CampaignMisconfiguredError, TreeUnavailableError } from "@/lib/utils/errors";
+import { readIpfsCID, readMerkleRoot } from "./airdrop-contract";
+import { createTreeSource } from "./tree-sources";
+
+type CachedAirdropTree = IndexedAirdropTree & {
+  /** When the tree was loaded (ms since epoch) */
+  loadedAt: number;
+  /** Contract's `ipfsCID` when the tree was loaded; undefined if it couldn't be read */
+  ipfsCID?: string;
+  /** When `ipfsCID` was last compared with the contract (ms since epoch) */
+  checkedAt: number;
+  /** When the tree is next reloaded from its source (ms since epoch) */
+  reloadAt: number;
+};
+
+/** How long a loaded tree is served before it is reloaded from its source */
+export const TREE_TTL_MS = Number(process.env.MERKLE_TREE_TTL_SECONDS ?? 3600) * 1000;
+
+/** How often the contract's `ipfsCID` is re-read to detect a new tree */
+const CID_CHECK_INTERVAL_MS = Number(process.env.MERKLE_TREE_CID_CHECK_SECONDS ?? 300) * 1000;
+
+/** How long an expired tree keeps being served after its reload failed, before trying again */
+const RELOAD_RETRY_MS = 60_000;
+
+// In-memory cache of Merkle trees and their address indexes, keyed by campaign id.
+// Avoids fetching from IPFS on every request and scanning all leaves per lookup.
+const cache = new Map<string, CachedAirdropTree>();
+
+// Loads in progress, keyed by campaign id, so concurrent requests share one fetch.
+const pending = new Map<string, Promise<CachedAirdropTree>>();
+
+/**
+ * Checks that a tree's root, its payload root (if any), the configured root and the contract's
+ * `MERKLE_ROOT` all agree. Serving proofs for the wrong tree would make every claim revert.
+ *
+ * @throws CampaignMisconfiguredError if any two roots differ
+ */
+export async function assertRootsMatch(
+  campaign: AirdropCampaign,
+  treeRoot: string,
+  payloadRoot?: string,
+): Promise<void> {
+  const roots: Array<[label: string, root: string]> = [];
+  if (payloadRoot !== undefined) {
+    roots.push(["payload root", payloadRoot]);
+  }
+  if (campaign.merkleRoot) {
+    roots.push(["configured root", campaign.merkleRoot]);
+  }
+  if (campaign.contractAddress) {
+    roots.push(["on-chain MERKLE_ROOT", await readMerkleRoot(campaign)]);
+  }
+
+  for (const [label, root] of roots) {
+    if (root.toLowerCase() !== treeRoot.toLowerCase()) {
+      throw new CampaignMisconfiguredError(
+        `Campaign "${campaign.id}" tree root ${treeRoot} does not match ${label} ${root}`,
+      );
+    }
+  }
+}
+
+/**
+ * Reads the contract's `ipfsCID`, or undefined if the campaign has no contract or the read fails.
+ */
+async function tryReadIpfsCID(campaign: AirdropCampaign): Promise<string | undefined> {
+  if (!campaign.contractAddress) {
+    return undefined;
+  }
+  try {
+    return await readIpfsCID(campaign);
+  } catch (error) {
+    console.warn(`Could not read ipfsCID for campaign "${campaign.id}":`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Why a cached tree must be reloaded: "expired" once its reload time has passed, or
+ * "cidChanged" if the contract now points to a different IPFS CID (checked at most every
+ * CID_CHECK_INTERVAL_MS).
+ *
+ * @returns undefined while the tree is fresh
+ */
+async function getStaleness(
+  campaign: AirdropCampaign,
+  cached: CachedAirdropTree,
+): Promise<"expired" | "cidChanged" | undefined> {
+  const now = Date.now();
+  if (now - cached.checkedAt > CID_CHECK_INTERVAL_MS) {
+    cached.checkedAt = now;
+    const ipfsCID = await tryReadIpfsCID(campaign);
+    if (ipfsCID !== undefined && ipfsCID !== cached.ipfsCID) {
+      console.log(`ipfsCID changed for campaign "${campaign.id}": ${cached.ipfsCID} -> ${ipfsCID}`);
+      return "cidChanged";
+    }
+  }
+
+  return now >= cached.reloadAt ? "expired" : undefined;
+}
+
+/**
+ * Loads a campaign's Merkle tree from its configured tree source and builds the address index.
+ *
+ * @throws TreeUnavailableError if the tree source can't be read
+ * @throws CampaignMisconfiguredError if the tree doesn't match the campaign's Merkle root
+ */
+async function loadMerkleTree(campaign: AirdropCampaign): Promise<CachedAirdropTree> {
+  const ipfsCID = await tryReadIpfsCID(campaign);
+  const source = createTreeSource(campaign);
+  console.log(`Loading Merkle tree for campaign "${campaign.id}" from ${source.description}`);
+
+  let data: IpfsMerkleData;
+  try {
+    data = await source.load();
+  } catch (loadError) {
+    throw new TreeUnavailableError(`Could not load Merkle tree from ${source.description}`, {
+      cause: loadError,
+    });
+  }
+
+  const indexed = buildAirdropTree(data, {
+    onUnexpectedLeafEncoding: (encoding) =>
+      console.warn(`Unexpected leaf encoding for campaign "${campaign.id}":`, encoding),
+  });
+  await assertRootsMatch(campaign, indexed.tree.root, data.root);
+
+  const loadedAt = Date.now();
+  const loaded: CachedAirdropTree = {
+    ...indexed,
+    checkedAt: loadedAt,
+    ipfsCID,
+    loadedAt,
+    reloadAt: loadedAt + TREE_TTL_MS,
+  };
+  cache.set(campaign.id, loaded);
+
+  console.log(`Merkle tree loaded successfully for campaign "${campaign.id}":`, {
+    recipients: data.number_of_recipients,
+    root: data.root,
+  });
+
+  return loaded;
+}
+
+/**
+ * Reloads an expired tree. If the reload fails (gateway or RPC down), the expired tree keeps
+ * being served and the reload is retried after RELOAD_RETRY_MS, unless the tree no longer
+ * matches the campaign's roots or the contract's `ipfsCID` now points elsewhere.
+ *
+ * @throws The reload's error when the expired tree can't be kept
+ */
+async function reloadExpiredTree(
+  campaign: AirdropCampaign,
+  expired: CachedAirdropTree,
+): Promise<CachedAirdropTree> {
+  try {
+    return await loadMerkleTree(campaign);
+  } catch (error) {
+    if (!(error instanceof CampaignMisconfiguredError)) {
+      const ipfsCID = await tryReadIpfsCID(campaign);
+      if (ipfsCID === undefined || ipfsCID === expired.ipfsCID) {
+        console.warn(
+          `Could not reload Merkle tree for campaign "${campaign.id}", serving the cached tree:`,
+          error,
+        );
+        expired.reloadAt = Date.now() + RELOAD_RETRY_MS;
+        return expired;
+      }
+    }
+
+    cache.delete(campaign.id);
+    throw error;
+  }
+}
+
+/**
+ * Returns a campaign's Merkle tree, loading it from its tree source on first use.
+ * The tree plus a lowercase-address index is cached in memory and reloaded after the TTL
+ * or when the contract's `ipfsCID` changes. A tree whose CID changed is never served again;
+ * an expired one is served until its reload succeeds (see reloadExpiredTree).
+ *
+ * @throws TreeUnavailableError if the tree source can't be read
+ * @throws CampaignMisconfiguredError if the tree doesn't match the campaign's Merkle root
+ */
+export async function getMerkleTree(campaign: AirdropCampaign): Promise<CachedAirdropTree> {
+  let expired: CachedAirdropTree | undefined;
+  const cached = cache.get(campaign.id);
+  if (cached) {
+    const staleness = await getStaleness(campaign, cached);
+    if (staleness === undefined) {
+      return cached;
+    }
+    if (staleness === "cidChanged") {
+      cache.delete(campaign.id);
+    } else {
+      expired = cached;
+    }
+  }
+
+  const inFlight = pending.get(campaign.id);
+  if (inFlight) {
+    return inFlight;
+  }
+
+  const load = (expired ? reloadExpiredTree(campaign, expired) : loadMerkleTree(campaign)).finally(
+    () => pending.delete(campaign.id),
+  );
+  pending.set(campaign.id, load);
+  return load;
+}
+
+/**
+ * Drops a campaign's cached tree and loads it again, e.g. after the tree was re-pinned.
+ */
+export async function reloadMerkleTree(campaign: AirdropCampaign): Promise<CachedAirdropTree> {
+  cache.delete(campaign.id);
+  return getMerkleTree(campaign);
+}
+
+/**
+ * Describes which tree served a response.
+ */
+export function getTreeMeta({ tree, loadedAt }: CachedAirdropTree): TreeMeta {
+  return { loadedAt: new Date(loadedAt).toISOString(), root: tree.root as Hex };
+}
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import {
+  batchProofApiResponseSchema,
+  batchProofBodySchema,
+  proofApiResponseSchema,
+  proofQuerySchema,
+  revalidateApiResponseSchema,
+  statsApiResponseSchema,
+  verifyProofApiResponseSchema,
+  verifyProofBodySchema,
+} from "@/lib/utils/validation";
+import { API_ERRORS } from "./api-errors";
+
+type JsonSchema = Record<string, unknown>;
+
+/** Converts a zod schema to an OpenAPI 3.1 (JSON Schema 2020-12) schema object */
+function toSchema(schema: z.ZodType, io: "input" | "output" = "output"): JsonSchema {
+  const { $schema: _dialect, ...jsonSchema } = z.toJSONSchema(schema, { io });
+  return jsonSchema;
+}
+
+/** JSON response object whose body follows `schemaRef` */
+function jsonResponse(description: string, schemaRef: string) {
+  return {
+    content: { "application/json": { schema: { $ref: schemaRef } } },
+    description,
+  };
+}
+
+/** Error responses for the given codes, grouped by HTTP status */
+function errorResponses(codes: readonly ApiErrorCode[], schemaRef: string) {
+  const byStatus = new Map<number, ApiErrorCode[]>();
+  for (const code of codes) {
+    const { status } = API_ERRORS[code];
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+  return Object.fromEntries(
+    Array.from(byStatus, ([status, statusCodes]) => [
+      String(status),
+      jsonResponse(statusCodes.join(" or "), schemaRef),
+    ]),
+  );
+}
+
+const campaignIdParameter = {
+  description: 'Campaign id from the registry; `/api/airdrop/*` without it serves "default"',
+  in: "path",
+  name: "campaignId",
+  required: true,
+  schema: { example: "default", type: "string" },
+} as const;
+
+const TREE_ERRORS = [
+  ApiErrorCode.CAMPAIGN_NOT_FOUND,
+  ApiErrorCode.INTERNAL_ERROR,
+  ApiErrorCode.TREE_UNAVAILABLE,
+  ApiErrorCode.ROOT_MISMATCH,
+] as const;
+
+/**
+ * Builds the OpenAPI document for the airdrop API from the zod request and response schemas
+ * in `app/lib/utils/validation.ts`.
+ */
+export function buildOpenApiDocument() {
+  return {
+    openapi: "3.1.0",
+    components: {
+      schemas: {
+        BatchProofApiResponse: toSchema(batchProofApiResponseSchema),
+        BatchProofRequest: toSchema(batchProofBodySchema, "input"),
+        ProofApiResponse: toSchema(proofApiResponseSchema),
+        RevalidateApiResponse: toSchema(revalidateApiResponseSchema),
+        StatsApiResponse: toSchema(statsApiResponseSchema),
+        VerifyProofApiResponse: toSchema(verifyProofApiResponseSchema),
+        VerifyProofRequest: toSchema(verifyProofBodySchema, "input"),
+      },
+      securitySchemes: {
+        apiKey: { in: "header", name: "X-API-Key", type: "apiKey" },
+        revalidateSecret: { scheme: "bearer", type: "http" },
+      },
+    },
+    info: {
+      description:
+        "Merkle proof lookups for Sablier airdrop campaigns. Errors are `{ error, code }` with a machine-readable `code`.",
+      title: "Sablier Airdrops API",
+      version: "1.0.0",
+    },
+    paths: {
+      "/api/airdrop/{campaignId}/proof": {
+        get: {
+          description:
+            "Returns the Merkle proof for an address or ENS name, plus its on-chain claim status when available. Rate limited per IP, or per `X-API-Key`.",
+          operationId: "getProof",
+          security: [{}, { apiKey: [] }],
+          parameters: [
+            campaignIdParameter,
+            {
+              in: "query",
+              name: "address",
+              required: true,
+              schema: toSchema(proofQuerySchema.shape.address, "input"),
+            },
+          ],
+          responses: {
+            "200": jsonResponse("Eligible", "#/components/schemas/ProofApiResponse"),
+            ...errorResponses(
+              [
+                ApiErrorCode.INVALID_ADDRESS,
+                ApiErrorCode.NOT_ELIGIBLE,
+                ApiErrorCode.NAME_NOT_RESOLVED,
+                ApiErrorCode.RATE_LIMITED,
+                ...TREE_ERRORS,
+              ],
+              "#/components/schemas/ProofApiResponse",
+            ),
+          },
+        },
+      },
+      "/api/airdrop/{campaignId}/proof/batch": {
+        post: {
+          description:
+            "Looks up Merkle proofs for many addresses at once. Rate limited per IP, or per `X-API-Key`.",
+          operationId: "getProofBatch",
+          parameters: [campaignIdParameter],
+          security: [{}, { apiKey: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/BatchProofRequest" } },
+            },
+          },
+          responses: {
+            "200": jsonResponse(
+              "Per-address results",
+              "#/components/schemas/BatchProofApiResponse",
+            ),
+            ...errorResponses(
+              [ApiErrorCode.INVALID_REQUEST, ApiErrorCode.RATE_LIMITED, ...TREE_ERRORS],
+              "#/components/schemas/BatchProofApiResponse",
+            ),
+          },
+        },
+      },
+      "/api/airdrop/{campaignId}/revalidate": {
+        post: {
+          description: "Reloads the campaign's Merkle tree from its source.",
+          operationId: "revalidateTree",
+          parameters: [campaignIdParameter],
+          security: [{ revalidateSecret: [] }],
+          responses: {
+            "200": jsonResponse("Reloaded tree", "#/components/schemas/RevalidateApiResponse"),
+            ...errorResponses(
+              [ApiErrorCode.UNAUTHORIZED, ...TREE_ERRORS],
+              "#/components/schemas/RevalidateApiResponse",
+            ),
+          },
+        },
+      },
+      "/api/airdrop/{campaignId}/stats": {
+        get: {
+          description:
+            "Returns the recipient count and total allocation, plus the expiration and claim progress read from the contract.",
+          operationId: "getStats",
+          parameters: [campaignIdParameter],
+          responses: {
+            "200": jsonResponse("Campaign stats", "#/components/schemas/StatsApiResponse"),
+            ...errorResponses(TREE_ERRORS, "#/components/schemas/StatsApiResponse"),
+          },
+        },
+      },
+      "/api/airdrop/{campaignId}/verify": {
+        post: {
+          description:
+            "Checks a claim's proof against the campaign tree's root and the contract's `MERKLE_ROOT` before it is submitted. Rate limited per IP, or per `X-API-Key`.",
+          operationId: "verifyProof",
+          parameters: [campaignIdParameter],
+          security: [{}, { apiKey: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/VerifyProofRequest" } },
+            },
+          },
+          responses: {
+            "200": jsonResponse(
+              "Verification result",
+              "#/components/schemas/VerifyProofApiResponse",
+            ),
+            ...errorResponses(
+              [ApiErrorCode.INVALID_REQUEST, ApiErrorCode.RATE_LIMITED, ...TREE_ERRORS],
+              "#/components/schemas/VerifyProofApiResponse",
+            ),
+          },
+        },
+      },
+    },
+  };
+}
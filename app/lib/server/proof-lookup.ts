@@ -0,0 +1,73 @@
+import type { AirdropCampaign, ClaimData, TreeMeta } from "@/lib/types/airdrop.types";
+import { lookupClaimData } from "@/lib/utils/airdrop-core";
+import { getMerkleTree, getTreeMeta, reloadMerkleTree } from "./merkle-tree";
+import { getShardManifest, lookupShardedClaimData, reloadProofShards } from "./proof-shards";
+
+/**
+ * Looks up the claim data for one address, from the campaign's proof shards if configured,
+ * else from its full Merkle tree.
+ *
+ * @returns The claim data (null if not a recipient) and the tree that served it
+ * @throws TreeUnavailableError if the tree or shard can't be loaded
+ * @throws CampaignMisconfiguredError if the tree doesn't match the campaign's Merkle root
+ */
+export async function lookupProof(
+  campaign: AirdropCampaign,
+  address: string,
+): Promise<{ claimData: ClaimData | null; meta: TreeMeta }> {
+  if (campaign.proofShards) {
+    return lookupShardedClaimData(campaign, campaign.proofShards, address);
+  }
+
+  const merkleTree = await getMerkleTree(campaign);
+  return { claimData: lookupClaimData(merkleTree, address), meta: getTreeMeta(merkleTree) };
+}
+
+/**
+ * Looks up the claim data for many valid addresses. With proof shards, addresses are sorted so
+ * those sharing a prefix (and so a shard, whatever the prefix length) are looked up together.
+ *
+ * @returns Claim data per address (null if not a recipient) and the tree that served them
+ */
+export async function lookupProofs(
+  campaign: AirdropCampaign,
+  addresses: readonly string[],
+): Promise<{ claims: Map<string, ClaimData | null>; meta: TreeMeta | undefined }> {
+  const claims = new Map<string, ClaimData | null>();
+  let meta: TreeMeta | undefined;
+
+  const ordered = campaign.proofShards
+    ? [...addresses].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    : addresses;
+
+  for (const address of ordered) {
+    const result = await lookupProof(campaign, address);
+    claims.set(address, result.claimData);
+    meta = result.meta;
+  }
+
+  return { claims, meta };
+}
+
+/**
+ * Returns the tree (or shard manifest) currently serving the campaign's proofs.
+ *
+ * @throws TreeUnavailableError if the tree or manifest can't be loaded
+ * @throws CampaignMisconfiguredError if it doesn't match the campaign's Merkle root
+ */
+export async function getProofsMeta(campaign: AirdropCampaign): Promise<TreeMeta> {
+  if (campaign.proofShards) {
+    return (await getShardManifest(campaign, campaign.proofShards)).meta;
+  }
+  return getTreeMeta(await getMerkleTree(campaign));
+}
+
+/**
+ * Drops the campaign's cached tree or shard manifest and loads it again.
+ */
+export async function reloadProofs(campaign: AirdropCampaign): Promise<TreeMeta> {
+  if (campaign.proofShards) {
+    return reloadProofShards(campaign, campaign.proofShards);
+  }
+  return getTreeMeta(await reloadMerkleTree(campaign));
+}
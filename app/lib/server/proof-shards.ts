@@ -0,0 +1,229 @@
+import { readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { Hex } from "viem";
+import type {
+  AirdropCampaign,
+  ClaimData,
+  ProofShard,
+  ProofShardManifest,
+  ProofShardsConfig,
+  TreeMeta,
+} from "@/lib/types/airdrop.types";
+import { verifyClaimData } from "@/lib/utils/airdrop-core";
+import { CampaignMisconfiguredError, TreeUnavailableError } from "@/lib/utils/errors";
+import { getShardFileName, SHARD_MANIFEST_FILE } from "@/lib/utils/proof-shards";
+import { proofShardManifestSchema, proofShardSchema } from "@/lib/utils/validation";
+import { assertRootsMatch, TREE_TTL_MS } from "./merkle-tree";
+
+/** Most shards kept in memory across all campaigns; the least recently used is evicted first */
+const MAX_CACHED_SHARDS = 64;
+
+/**
+ * Reads files from a proof shard directory
+ */
+type ShardReader = {
+  /** Human-readable location, for logs */
+  description: string;
+  /** Reads one file of the directory as text */
+  read: (fileName: string) => Promise<string>;
+};
+
+type LoadedManifest = {
+  manifest: ProofShardManifest;
+  reader: ShardReader;
+  /** When the manifest was loaded (ms since epoch); also versions the cached shards */
+  loadedAt: number;
+};
+
+// Manifests per campaign id, reloaded after TREE_TTL_MS like full trees.
+const manifests = new Map<string, LoadedManifest>();
+
+// Shards keyed by campaign id, manifest load time and prefix. Map order doubles as LRU order.
+const shards = new Map<string, ProofShard>();
+
+// Loads in progress, keyed like the caches above, so concurrent requests share one fetch.
+const pending = new Map<string, Promise<unknown>>();
+
+function dedupe<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const inFlight = pending.get(key);
+  if (inFlight) {
+    return inFlight as Promise<T>;
+  }
+  const promise = load().finally(() => pending.delete(key));
+  pending.set(key, promise);
+  return promise;
+}
+
+function createShardReader(config: ProofShardsConfig): ShardReader {
+  switch (config.type) {
+    case "file": {
+      const dir = resolve(process.cwd(), config.dir);
+      return {
+        description: `directory ${dir}`,
+        read: (fileName) => readFile(join(dir, fileName), "utf-8"),
+      };
+    }
+    case "http":
+      return {
+        description: `URL ${config.baseUrl}`,
+        read: async (fileName) => {
+          const url = `${config.baseUrl.replace(/\/+$/, "")}/${fileName}`;
+          // Cached in memory with our own TTL, so always fetch fresh
+          const response = await fetch(url, { cache: "no-store" });
+          if (!response.ok) {
+            throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+          }
+          return response.text();
+        },
+      };
+  }
+}
+
+/**
+ * Loads a campaign's shard manifest and checks its root against the campaign.
+ *
+ * @throws TreeUnavailableError if the manifest can't be read
+ * @throws CampaignMisconfiguredError if the manifest root doesn't match the campaign's Merkle root
+ */
+async function loadManifest(
+  campaign: AirdropCampaign,
+  config: ProofShardsConfig,
+): Promise<LoadedManifest> {
+  const reader = createShardReader(config);
+  console.log(
+    `Loading proof shard manifest for campaign "${campaign.id}" from ${reader.description}`,
+  );
+
+  let manifest: ProofShardManifest;
+  try {
+    manifest = proofShardManifestSchema.parse(JSON.parse(await reader.read(SHARD_MANIFEST_FILE)));
+  } catch (loadError) {
+    throw new TreeUnavailableError(
+      `Could not load proof shard manifest from ${reader.description}`,
+      {
+        cause: loadError,
+      },
+    );
+  }
+
+  await assertRootsMatch(campaign, manifest.root);
+
+  const loaded: LoadedManifest = { loadedAt: Date.now(), manifest, reader };
+  manifests.set(campaign.id, loaded);
+  return loaded;
+}
+
+/**
+ * Returns a campaign's shard manifest, loading it on first use and after TREE_TTL_MS.
+ */
+async function getManifest(
+  campaign: AirdropCampaign,
+  config: ProofShardsConfig,
+): Promise<LoadedManifest> {
+  const cached = manifests.get(campaign.id);
+  if (cached && Date.now() - cached.loadedAt <= TREE_TTL_MS) {
+    return cached;
+  }
+  manifests.delete(campaign.id);
+  return dedupe(`manifest:${campaign.id}`, () => loadManifest(campaign, config));
+}
+
+/**
+ * Returns the shard holding `address`, fetching it on first use.
+ *
+ * @throws TreeUnavailableError if the shard can't be read
+ */
+async function getShard(
+  campaign: AirdropCampaign,
+  loaded: LoadedManifest,
+  address: string,
+): Promise<ProofShard> {
+  const fileName = getShardFileName(address, loaded.manifest.prefix_length);
+  const key = `${campaign.id}:${loaded.loadedAt}:${fileName}`;
+
+  const cached = shards.get(key);
+  if (cached) {
+    // Move to the end so it is evicted last
+    shards.delete(key);
+    shards.set(key, cached);
+    return cached;
+  }
+
+  return dedupe(`shard:${key}`, async () => {
+    let shard: ProofShard;
+    try {
+      shard = proofShardSchema.parse(JSON.parse(await loaded.reader.read(fileName)));
+    } catch (loadError) {
+      throw new TreeUnavailableError(
+        `Could not load proof shard ${fileName} from ${loaded.reader.description}`,
+        { cause: loadError },
+      );
+    }
+
+    shards.set(key, shard);
+    while (shards.size > MAX_CACHED_SHARDS) {
+      const oldest = shards.keys().next().value;
+      if (oldest === undefined) break;
+      shards.delete(oldest);
+    }
+    return shard;
+  });
+}
+
+function toTreeMeta({ manifest, loadedAt }: LoadedManifest): TreeMeta {
+  return { loadedAt: new Date(loadedAt).toISOString(), root: manifest.root as Hex };
+}
+
+/**
+ * Looks up an address in a campaign's proof shards, loading only the manifest and the one
+ * shard it needs. Each proof is verified against the manifest root, so a tampered shard is
+ * never served even though shard files aren't content-addressed individually.
+ *
+ * @returns The claim data (null if not a recipient) and the tree that served it
+ * @throws TreeUnavailableError if the manifest or shard can't be read
+ * @throws CampaignMisconfiguredError if the roots disagree or a proof doesn't verify
+ */
+export async function lookupShardedClaimData(
+  campaign: AirdropCampaign,
+  config: ProofShardsConfig,
+  address: string,
+): Promise<{ claimData: ClaimData | null; meta: TreeMeta }> {
+  const loaded = await getManifest(campaign, config);
+  const shard = await getShard(campaign, loaded, address);
+  const meta = toTreeMeta(loaded);
+
+  const claimData = shard[address.toLowerCase()];
+  if (!claimData) {
+    return { claimData: null, meta };
+  }
+
+  if (!verifyClaimData(loaded.manifest.root, address, claimData)) {
+    throw new CampaignMisconfiguredError(
+      `Campaign "${campaign.id}" proof shard entry for ${address} does not verify against root ${loaded.manifest.root}`,
+    );
+  }
+
+  return { claimData, meta };
+}
+
+/**
+ * Returns a campaign's shard manifest and the tree it describes.
+ */
+export async function getShardManifest(
+  campaign: AirdropCampaign,
+  config: ProofShardsConfig,
+): Promise<{ manifest: ProofShardManifest; meta: TreeMeta }> {
+  const loaded = await getManifest(campaign, config);
+  return { manifest: loaded.manifest, meta: toTreeMeta(loaded) };
+}
+
+/**
+ * Drops a campaign's cached manifest (and with it, its shards) and loads it again.
+ */
+export async function reloadProofShards(
+  campaign: AirdropCampaign,
+  config: ProofShardsConfig,
+): Promise<TreeMeta> {
+  manifests.delete(campaign.id);
+  return toTreeMeta(await getManifest(campaign, config));
+}
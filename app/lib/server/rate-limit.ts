@@ -0,0 +1,172 @@
+import type { NextRequest } from "next/server";
+import { findApiKey } from "./auth";
+
+/**
+ * Backing store for rate-limit counters (fixed windows).
+ * The default keeps counters in process memory; plug in a shared store (e.g. Redis) with
+ * `setRateLimitStore` when running several server instances.
+ */
+export type RateLimitStore = {
+  /**
+   * Adds `amount` hits to `key` if the window still has room for them under `limit`, starting a
+   * new window of `windowMs` if the current one has ended. Hits that don't fit are not counted.
+   * @returns Whether the hits were added, hits counted in the current window, and when the
+   * window ends (ms since epoch)
+   */
+  increment(
+    key: string,
+    windowMs: number,
+    amount: number,
+    limit: number,
+  ): Promise<{ added: boolean; count: number; resetAt: number }>;
+};
+
+export type RateLimitResult = {
+  /** Whether the request is over the limit; limited requests are not counted */
+  limited: boolean;
+  /**
+   * Whether the request costs more than a whole window allows, so it can never succeed.
+   * Such requests are neither counted nor limited; callers should refuse them outright.
+   */
+  oversized: boolean;
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** When the current window ends (ms since epoch) */
+  resetAt: number;
+};
+
+/** Counters are swept of expired windows once the map grows past this size */
+const MEMORY_STORE_SWEEP_SIZE = 10_000;
+
+/**
+ * Creates a store that keeps counters in process memory.
+ * Each server instance counts separately, so the effective limit scales with the instance count.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async increment(key, windowMs, amount, limit) {
+      const now = Date.now();
+
+      if (windows.size >= MEMORY_STORE_SWEEP_SIZE) {
+        for (const [entryKey, entry] of windows) {
+          if (entry.resetAt <= now) windows.delete(entryKey);
+        }
+      }
+
+      let current = windows.get(key);
+      if (!current || current.resetAt <= now) {
+        current = { count: 0, resetAt: now + windowMs };
+        windows.set(key, current);
+      }
+
+      if (current.count + amount > limit) {
+        return { added: false, ...current };
+      }
+      current.count += amount;
+      return { added: true, ...current };
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryRateLimitStore();
+
+/**
+ * Replaces the rate-limit store, e.g. with a Redis-backed one shared by all instances.
+ * Call once at startup (e.g. from `instrumentation.ts`).
+ */
+export function setRateLimitStore(customStore: RateLimitStore): void {
+  store = customStore;
+}
+
+/** Reads a non-negative integer from the environment, falling back to `fallback` */
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Client IP as recorded by the trusted proxies; all clients without one share a bucket.
+ *
+ * Reads RATE_LIMIT_IP_HEADER (default X-Forwarded-For) and takes the entry appended by the
+ * outermost of RATE_LIMIT_TRUSTED_PROXIES proxies (default 1), counting from the right: entries
+ * further left are sent by the client and can be forged. Platforms that overwrite a single-value
+ * header with the connecting IP can point RATE_LIMIT_IP_HEADER at it (e.g. `x-real-ip` on Vercel).
+ */
+function getClientIp(request: NextRequest): string {
+  const header = process.env.RATE_LIMIT_IP_HEADER || "x-forwarded-for";
+  const hops =
+    request.headers
+      .get(header)
+      ?.split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean) ?? [];
+  const trustedProxies = Math.max(1, readLimit("RATE_LIMIT_TRUSTED_PROXIES", 1));
+  // Fewer hops than proxies means the request skipped some; the left-most is then the client
+  return hops[Math.max(0, hops.length - trustedProxies)] ?? "unknown";
+}
+
+/**
+ * Counts the request against its API key (`X-API-Key`, if listed in RATE_LIMIT_API_KEYS)
+ * or else its IP, and reports whether it is over the limit.
+ *
+ * Limits are per window of RATE_LIMIT_WINDOW_SECONDS (default 60): RATE_LIMIT_MAX requests
+ * per IP (default 60) and RATE_LIMIT_API_KEY_MAX per API key (default 1000). A limit of 0
+ * disables rate limiting for that kind of client. Requests refused for being over the limit
+ * are not counted, and neither are requests costing more than the limit (`oversized`).
+ *
+ * @param cost - Requests this one counts as, e.g. the number of addresses in a batch lookup
+ * @returns null when rate limiting is disabled for the client
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  cost = 1,
+): Promise<RateLimitResult | null> {
+  const windowMs = readLimit("RATE_LIMIT_WINDOW_SECONDS", 60) * 1000;
+  const apiKeys = process.env.RATE_LIMIT_API_KEYS?.split(",").filter(Boolean) ?? [];
+  const apiKey = findApiKey(request, apiKeys);
+
+  const [key, limit] = apiKey
+    ? [`key:${apiKey}`, readLimit("RATE_LIMIT_API_KEY_MAX", 1000)]
+    : [`ip:${getClientIp(request)}`, readLimit("RATE_LIMIT_MAX", 60)];
+
+  if (limit === 0 || windowMs === 0) {
+    return null;
+  }
+
+  // An oversized request only reads the window, so its headers still report the client's state
+  const oversized = cost > limit;
+  const { added, count, resetAt } = await store.increment(
+    key,
+    windowMs,
+    oversized ? 0 : cost,
+    limit,
+  );
+  return {
+    limit,
+    limited: !added,
+    oversized,
+    remaining: Math.max(0, limit - count),
+    resetAt,
+  };
+}
+
+/**
+ * Headers describing the client's rate-limit state; includes `Retry-After` once limited.
+ */
+export function rateLimitHeaders(result: RateLimitResult | null): Record<string, string> {
+  if (!result) {
+    return {};
+  }
+
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000));
+  return {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(resetSeconds),
+    ...(result.limited ? { "Retry-After": String(resetSeconds) } : {}),
+  };
+}
@@ -0,0 +1,33 @@
+import type { Chain, PublicClient } from "viem";
+import { createPublicClient, http } from "viem";
+import { mainnet, sepolia } from "viem/chains";
+
+/** Chains the server can read from; keep in sync with `app/lib/wagmi.ts` */
+const CHAINS: readonly Chain[] = [mainnet, sepolia];
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * Returns a viem public client for a chain, created once per process.
+ * Uses `RPC_URL_<chainId>` (e.g. RPC_URL_1) when set, else the chain's default public RPC.
+ *
+ * @throws Error if the chain is not supported
+ */
+export function getPublicClient(chainId: number): PublicClient {
+  const existing = clients.get(chainId);
+  if (existing) {
+    return existing;
+  }
+
+  const chain = CHAINS.find((candidate) => candidate.id === chainId);
+  if (!chain) {
+    throw new Error(`Unsupported chain id: ${chainId}`);
+  }
+
+  const client = createPublicClient({
+    chain,
+    transport: http(process.env[`RPC_URL_${chainId}`] || undefined),
+  });
+  clients.set(chainId, client);
+  return client;
+}
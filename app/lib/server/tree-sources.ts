@@ -0,0 +1,99 @@
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { AirdropCampaign } from "@/lib/types/airdrop.types";
+import type { IpfsMerkleData } from "@/lib/types/ipfs.types";
+import { parseMerkleData } from "@/lib/utils/airdrop-core";
+import { DEFAULT_IPFS_GATEWAYS, fetchIpfsFile } from "@/lib/utils/ipfs";
+import { readIpfsCID } from "./airdrop-contract";
+
+/**
+ * Loads a campaign's Merkle tree payload from wherever it is stored.
+ * Every source returns the same parsed `IpfsMerkleData`; the tree itself is built by the caller.
+ */
+export type TreeSource = {
+  /** Human-readable location, for logs */
+  description: string;
+  /** Reads and parses the payload */
+  load: () => Promise<IpfsMerkleData>;
+};
+
+function createFileTreeSource(path: string): TreeSource {
+  const absolutePath = resolve(process.cwd(), path);
+  const description = `file ${absolutePath}`;
+
+  return {
+    description,
+    load: async () => parseMerkleData(await readFile(absolutePath, "utf-8"), description),
+  };
+}
+
+function createHttpTreeSource(url: string): TreeSource {
+  const description = `URL ${url}`;
+
+  return {
+    description,
+    load: async () => {
+      // The URL's content can change (e.g. re-pinned), and `getMerkleTree` already caches
+      // the parsed tree with its own TTL, so always fetch fresh.
+      const response = await fetch(url, { cache: "no-store" });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+      }
+
+      return parseMerkleData(await response.text(), description);
+    },
+  };
+}
+
+function createIpfsTreeSource(
+  campaign: AirdropCampaign,
+  {
+    cid: configuredCid,
+    gateways = [...DEFAULT_IPFS_GATEWAYS],
+    timeoutMs,
+  }: { cid?: string; gateways?: string[]; timeoutMs?: number },
+): TreeSource {
+  return {
+    description: `IPFS ${configuredCid ?? "(CID from contract)"} via ${gateways.join(", ")}`,
+    load: async () => {
+      const cid = configuredCid ?? (await readIpfsCID(campaign));
+      if (!cid) {
+        throw new Error(`Campaign "${campaign.id}" has no IPFS CID configured or on-chain`);
+      }
+
+      const bytes = await fetchIpfsFile(cid, {
+        gateways,
+        init: { next: { revalidate: 3600 } }, // Content-addressed, so safe to cache
+        // Worth seeing even when a later gateway succeeds
+        onGatewayError: (gateway, error) =>
+          console.warn(
+            `IPFS gateway ${gateway} failed for ${cid}:`,
+            error instanceof Error ? error.message : error,
+          ),
+        timeoutMs,
+      });
+      return parseMerkleData(new TextDecoder().decode(bytes), `IPFS ${cid}`);
+    },
+  };
+}
+
+/**
+ * Creates the tree source described by a campaign's `treeSource` config.
+ * @throws Error if the campaign has no tree source configured
+ */
+export function createTreeSource(campaign: AirdropCampaign): TreeSource {
+  const config = campaign.treeSource;
+  if (!config) {
+    throw new Error(`Merkle tree source is not configured for campaign "${campaign.id}"`);
+  }
+
+  switch (config.type) {
+    case "file":
+      return createFileTreeSource(config.path);
+    case "http":
+      return createHttpTreeSource(config.url);
+    case "ipfs":
+      return createIpfsTreeSource(campaign, config);
+  }
+}
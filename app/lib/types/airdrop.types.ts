@@ -33,22 +33,121 @@ export enum ClaimStatus {
 }
 
 /**
- * Airdrop campaign metadata
+ * Machine-readable error codes returned by the airdrop API alongside `error`
+ */
+export enum ApiErrorCode {
+  /** Malformed address or ENS name */
+  INVALID_ADDRESS = "INVALID_ADDRESS",
+  /** Malformed request body */
+  INVALID_REQUEST = "INVALID_REQUEST",
+  /** Address is not in the Merkle tree */
+  NOT_ELIGIBLE = "NOT_ELIGIBLE",
+  /** ENS name has no address record */
+  NAME_NOT_RESOLVED = "NAME_NOT_RESOLVED",
+  /** No campaign is registered under the requested id */
+  CAMPAIGN_NOT_FOUND = "CAMPAIGN_NOT_FOUND",
+  /** Merkle tree couldn't be loaded from its source */
+  TREE_UNAVAILABLE = "TREE_UNAVAILABLE",
+  /** Merkle tree doesn't match the campaign's Merkle root */
+  ROOT_MISMATCH = "ROOT_MISMATCH",
+  /** Too many requests from this client */
+  RATE_LIMITED = "RATE_LIMITED",
+  /** Missing or wrong bearer token */
+  UNAUTHORIZED = "UNAUTHORIZED",
+  /** Unexpected server error */
+  INTERNAL_ERROR = "INTERNAL_ERROR",
+}
+
+/**
+ * Location of a campaign's Merkle tree JSON (Sablier IPFS format)
+ */
+export type TreeSourceConfig =
+  | {
+      /** Local file, e.g. the output of `scripts/generate-merkle-tree.ts` */
+      type: "file";
+      /** Path to the JSON file, relative to the working directory */
+      path: string;
+    }
+  | {
+      /** Plain HTTP(S) URL */
+      type: "http";
+      /** URL of the JSON file */
+      url: string;
+    }
+  | {
+      /** IPFS content, fetched through gateways and verified against its CID */
+      type: "ipfs";
+      /** CID of the JSON file (default: the contract's `ipfsCID`) */
+      cid?: string;
+      /** Gateway base URLs, tried in order (default: ipfs.io, dweb.link, Pinata) */
+      gateways?: string[];
+      /** Per-gateway timeout in milliseconds (default: 10 seconds) */
+      timeoutMs?: number;
+    };
+
+/**
+ * Location of a campaign's precomputed proof shards (see `app/lib/utils/proof-shards.ts`)
+ */
+export type ProofShardsConfig =
+  | {
+      /** Local directory, e.g. the generator's `--shards` output */
+      type: "file";
+      /** Path to the directory, relative to the working directory */
+      dir: string;
+    }
+  | {
+      /** Plain HTTP(S) base URL, e.g. an IPFS gateway URL of the pinned directory */
+      type: "http";
+      /** URL of the directory, without a trailing slash */
+      baseUrl: string;
+    };
+
+/**
+ * Manifest of a proof shard directory (`index.json`)
+ */
+export type ProofShardManifest = {
+  /** Merkle root of the tree the proofs belong to */
+  root: string;
+  /** Total number of recipients */
+  number_of_recipients: number;
+  /** Total amount allocated */
+  total_amount: string;
+  /** Hex characters of the address used to pick a shard, chosen by the generator */
+  prefix_length: number;
+};
+
+/**
+ * Proof shard (`<prefix>.json`): lowercase address -> claim data
+ */
+export type ProofShard = Record<string, ClaimData>;
+
+/**
+ * Airdrop campaign metadata, as stored in the campaign registry
  * CUSTOMIZATION POINT: Modify this type to add custom campaign fields
  */
 export type AirdropCampaign = {
+  /** Registry id, used in page and API URLs (e.g., "/[id]") */
+  id: string;
   /** Campaign name */
   name: string;
   /** Campaign description */
   description: string;
-  /** Contract address */
-  contractAddress: Address;
+  /** Chain the campaign contract is deployed on */
+  chainId: number;
+  /** Contract address (undefined until configured) */
+  contractAddress?: Address;
+  /** Block the contract was deployed in; needed to look up claim transactions and count claims */
+  deploymentBlock?: number;
+  /** Where the server loads the Sablier-format Merkle tree JSON from */
+  treeSource?: TreeSourceConfig;
+  /** Precomputed proof shards; when set, proofs are served from them instead of `treeSource` */
+  proofShards?: ProofShardsConfig;
   /** Token symbol (e.g., "SAPIEN") */
   tokenSymbol: string;
   /** Token decimals */
   tokenDecimals: number;
   /** Merkle root hash */
-  merkleRoot: Hex;
+  merkleRoot?: Hex;
   /** Campaign start date */
   startDate?: Date;
   /** Campaign end date */
@@ -75,14 +174,149 @@ export type TransactionState = {
   error: Error | null;
 };
 
+/**
+ * Identifies the Merkle tree that served an API response
+ */
+export type TreeMeta = {
+  /** Merkle root of the tree */
+  root: Hex;
+  /** When the server loaded the tree (ISO 8601) */
+  loadedAt: string;
+};
+
 /**
  * API response for proof endpoint
  */
 export type ProofApiResponse = {
+  /** Address that was looked up (resolved if an ENS name was given) */
+  address?: Address;
   /** Success response */
   data?: ClaimData;
+  /** Whether the allocation has been claimed (omitted if it couldn't be read on-chain) */
+  claimed?: boolean;
+  /** Transaction that claimed the allocation, when it could be found */
+  claimTxHash?: Hex;
+  /** Error response */
+  error?: string;
+  /** Error code (present whenever `error` is) */
+  code?: ApiErrorCode;
+  /** Tree that served the lookup (present whenever the tree was loaded) */
+  meta?: TreeMeta;
+};
+
+/**
+ * Result of a proof lookup in the browser, from the proof API or (in a static export) the tree
+ */
+export type ProofLookup = {
+  /** Address that was looked up (resolved if an ENS name was given) */
+  address?: Address;
+  /** Proof data, or null if not eligible */
+  proof: ClaimData | null;
+  /** On-chain claim status reported by the server (undefined if it couldn't be read) */
+  claimed?: boolean;
+  /** Claim transaction, when the server found it */
+  claimTxHash?: Hex;
+};
+
+/**
+ * Per-address result of a batch proof lookup
+ */
+export type BatchProofResult =
+  | {
+      /** Address is in the Merkle tree */
+      status: "eligible";
+      /** Proof data */
+      data: ClaimData;
+    }
+  | {
+      /** Address is valid but not in the Merkle tree */
+      status: "not_eligible";
+    }
+  | {
+      /** Address is malformed */
+      status: "invalid";
+    };
+
+/**
+ * API response for batch proof endpoint
+ */
+export type BatchProofApiResponse = {
+  /** Success response, keyed by lowercase address (invalid entries as submitted) */
+  data?: Record<string, BatchProofResult>;
+  /** Error response */
+  error?: string;
+  /** Error code (present whenever `error` is) */
+  code?: ApiErrorCode;
+  /** Tree that served the lookups (present whenever the tree was loaded) */
+  meta?: TreeMeta;
+};
+
+/**
+ * Outcome of checking a claim's proof before it is submitted
+ */
+export type VerifyProofResult = {
+  /** Whether the claim would pass the contract's proof check */
+  valid: boolean;
+  /** Whether the proof verifies against the campaign tree's root */
+  matchesTreeRoot: boolean;
+  /** Whether the proof verifies against the contract's `MERKLE_ROOT` (null without a contract) */
+  matchesOnChainRoot: boolean | null;
+};
+
+/**
+ * API response for proof verification endpoint
+ */
+export type VerifyProofApiResponse = {
+  /** Success response */
+  data?: VerifyProofResult;
+  /** Error response */
+  error?: string;
+  /** Error code (present whenever `error` is) */
+  code?: ApiErrorCode;
+  /** Tree whose root the proof was checked against */
+  meta?: TreeMeta;
+};
+
+/**
+ * API response for revalidate endpoint
+ */
+export type RevalidateApiResponse = {
+  /** Freshly loaded tree */
+  data?: TreeMeta;
+  /** Error response */
+  error?: string;
+  /** Error code (present whenever `error` is) */
+  code?: ApiErrorCode;
+};
+
+/**
+ * Campaign-wide figures for the landing page
+ */
+export type CampaignStats = {
+  /** Number of recipients in the Merkle tree */
+  recipients: number;
+  /** Sum of all allocations (base units) */
+  totalAmount: string;
+  /** Claim deadline (Unix seconds, 0 if it never expires); null if it couldn't be read on-chain */
+  expiration: number | null;
+  /** Number of recipients who have claimed; null if it couldn't be read on-chain */
+  claimedCount: number | null;
+  /** Sum of claimed allocations (base units); null if it couldn't be read on-chain */
+  claimedAmount: string | null;
+};
+
+/**
+ * API response for stats endpoint
+ */
+export type StatsApiResponse = {
+  /** Success response */
+  data?: CampaignStats;
   /** Error response */
   error?: string;
+  /** Error code (present whenever `error` is) */
+  code?: ApiErrorCode;
+  /** Tree the figures were computed from (present whenever the tree was loaded) */
+  meta?: TreeMeta;
 };
 
 // Re-export IPFS types for convenience
@@ -1,5 +1,6 @@
-import type { Address } from "viem";
+import type { Address, PublicClient } from "viem";
 import { getAddress, isAddress } from "viem";
+import { normalize } from "viem/ens";
 
 /**
  * Validates and normalizes an Ethereum address
@@ -33,3 +34,27 @@ export function shortenAddress(address: Address, chars = 4): string {
 export function formatAddress(address: Address, shorten = true): string {
   return shorten ? shortenAddress(address) : address;
 }
+
+/**
+ * Turns an address or ENS name into a checksummed address, resolving names with `client`
+ * @param client - Public client for the chain whose ENS resolver to use
+ * @param addressOrName - Address or ENS name (e.g. "vitalik.eth")
+ * @returns The address, or null if the name is invalid or has no address record
+ */
+export async function resolveAddressOrName(
+  client: Pick<PublicClient, "getEnsAddress">,
+  addressOrName: string,
+): Promise<Address | null> {
+  if (isAddress(addressOrName)) {
+    return getAddress(addressOrName);
+  }
+
+  let name: string;
+  try {
+    name = normalize(addressOrName);
+  } catch {
+    return null;
+  }
+
+  return client.getEnsAddress({ name });
+}
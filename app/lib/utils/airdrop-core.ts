@@ -0,0 +1,234 @@
+import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
+import type { Hex } from "viem";
+import { isAddress } from "viem";
+import type { ClaimData } from "@/lib/types/airdrop.types";
+import type { IpfsMerkleData } from "@/lib/types/ipfs.types";
+import { ipfsMerkleDataSchema } from "./validation";
+
+/**
+ * The Sablier airdrop format in one place, shared by the generator, the API routes and the
+ * browser (static export) so they can't drift apart:
+ *
+ * - Leaf schema: `[index, address, amount]` encoded as `["uint256", "address", "uint256"]`
+ * - Recipient validation
+ * - Serializer and parser for the `IpfsMerkleData` payload pinned to IPFS
+ * - Proof lookup and verification
+ */
+
+/* -------------------------------------------------------------------------- */
+/*                                 LEAF SCHEMA                                */
+/* -------------------------------------------------------------------------- */
+
+/** Leaf values as strings: [index, address, amount] */
+export type SablierLeaf = [index: string, address: string, amount: string];
+
+/** Leaf encoding of every Sablier airdrop tree */
+export const LEAF_ENCODING = ["uint256", "address", "uint256"] as const;
+
+/** Solidity type aliases that hash exactly like their canonical type */
+const TYPE_ALIASES: Record<string, string> = { int: "int256", uint: "uint256" };
+
+export type AirdropTree = StandardMerkleTree<SablierLeaf>;
+
+/** A loaded tree plus a lowercase-address -> treeIndex map for O(1) lookup */
+export type IndexedAirdropTree = {
+  tree: AirdropTree;
+  addressIndex: Map<string, number>;
+};
+
+/** Recipient entry: address plus allocation in token base units */
+export type AirdropRecipient = IpfsMerkleData["recipients"][number];
+
+/**
+ * Rewrites type aliases to their canonical names, e.g. `uint` to `uint256`.
+ * Trees written by older versions of the generator use `["uint", "address", "uint256"]`.
+ */
+function normalizeLeafEncoding(encoding: readonly string[]): string[] {
+  return encoding.map((type) => TYPE_ALIASES[type] ?? type);
+}
+
+/** Whether a tree's leaf encoding is the Sablier one, aliases included */
+export function isSablierLeafEncoding(encoding: unknown): boolean {
+  if (!Array.isArray(encoding) || encoding.length !== LEAF_ENCODING.length) return false;
+  const normalized = normalizeLeafEncoding(encoding.map(String));
+  return normalized.every((type, index) => type === LEAF_ENCODING[index]);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 VALIDATION                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Checks recipients before a tree is built from them: valid addresses, no duplicates
+ * (case-insensitive) and positive integer amounts.
+ *
+ * @throws Error naming the first bad entry by its `row` if it has one (e.g. "row 5" of a CSV
+ * file), else by its index
+ */
+export function validateRecipients(
+  recipients: readonly (AirdropRecipient & { row?: string })[],
+): void {
+  const seen = new Set<string>();
+
+  for (const [index, entry] of recipients.entries()) {
+    const where = entry.row ?? `index ${index}`;
+    if (!isAddress(entry.address)) {
+      throw new Error(`Invalid address at ${where}: ${entry.address}`);
+    }
+
+    const normalized = entry.address.toLowerCase();
+    if (seen.has(normalized)) {
+      throw new Error(`Duplicate address at ${where}: ${entry.address}`);
+    }
+    seen.add(normalized);
+
+    if (!/^\d+$/.test(entry.amount) || BigInt(entry.amount) <= 0n) {
+      throw new Error(`Invalid amount at ${where}: ${entry.amount}`);
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 SERIALIZER                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Builds the Merkle tree for a list of recipients; each leaf's index is the recipient's position.
+ * Call `validateRecipients` first.
+ */
+export function createAirdropTree(recipients: readonly AirdropRecipient[]): AirdropTree {
+  const leaves = recipients.map(
+    ({ address, amount }, index): SablierLeaf => [index.toString(), address, amount],
+  );
+  return StandardMerkleTree.of(leaves, [...LEAF_ENCODING]);
+}
+
+/**
+ * Serializes a tree and its recipients in the Sablier IPFS format.
+ */
+export function serializeMerkleData(
+  tree: AirdropTree,
+  recipients: readonly AirdropRecipient[],
+): IpfsMerkleData {
+  return {
+    merkle_tree: JSON.stringify(tree.dump()),
+    number_of_recipients: recipients.length,
+    recipients: recipients.map(({ address, amount }) => ({ address, amount })),
+    root: tree.root,
+    total_amount: recipients.reduce((sum, { amount }) => sum + BigInt(amount), 0n).toString(),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   PARSER                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parses a raw payload and checks it has the Sablier IPFS shape
+ * @throws Error if the payload is not JSON or is missing fields
+ */
+export function parseMerkleData(raw: string, description: string): IpfsMerkleData {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (parseError) {
+    throw new Error(`Merkle tree payload from ${description} is not valid JSON`, {
+      cause: parseError,
+    });
+  }
+
+  const result = ipfsMerkleDataSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(`Merkle tree payload from ${description} is malformed`, {
+      cause: result.error,
+    });
+  }
+  return result.data;
+}
+
+/**
+ * Builds the Merkle tree from a payload's `merkle_tree` and indexes it by address.
+ *
+ * @param onUnexpectedLeafEncoding - Called with a non-Sablier leaf encoding before the tree is
+ * loaded with it anyway, so callers can log or report it
+ * @throws Error if `merkle_tree` is malformed
+ */
+export function buildAirdropTree(
+  data: IpfsMerkleData,
+  { onUnexpectedLeafEncoding }: { onUnexpectedLeafEncoding?: (encoding: unknown) => void } = {},
+): IndexedAirdropTree {
+  let treeData: { leafEncoding?: unknown; [key: string]: unknown };
+  try {
+    treeData = JSON.parse(data.merkle_tree);
+  } catch (parseError) {
+    throw new Error("Merkle tree payload contains malformed merkle_tree JSON", {
+      cause: parseError,
+    });
+  }
+
+  // OpenZeppelin requires `leafEncoding`; some legacy uploads omit it, so backfill with
+  // the canonical Sablier format. Aliases such as `uint` are accepted; anything else is
+  // loaded as-is and reported to the caller so we don't silently mis-load.
+  if (!treeData.leafEncoding || isSablierLeafEncoding(treeData.leafEncoding)) {
+    treeData.leafEncoding = [...LEAF_ENCODING];
+  } else {
+    onUnexpectedLeafEncoding?.(treeData.leafEncoding);
+  }
+
+  // `StandardMerkleTree.load` validates the payload at runtime; the externally sourced
+  // JSON cannot be statically typed, so we route it through `unknown`.
+  const tree = StandardMerkleTree.load(
+    treeData as unknown as Parameters<typeof StandardMerkleTree.load<SablierLeaf>>[0],
+  );
+
+  const addressIndex = new Map<string, number>();
+  for (const [treeIndex, [, entryAddress]] of tree.entries()) {
+    addressIndex.set(entryAddress.toLowerCase(), treeIndex);
+  }
+
+  return { addressIndex, tree };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                PROOF LOOKUP                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Returns the claim data of the leaf at `treeIndex` (the position in `tree.entries()`).
+ */
+export function getClaimDataAt(tree: AirdropTree, treeIndex: number): ClaimData {
+  // Leaf structure: [index, address, amount]
+  const [leafIndex, , entryAmount] = tree.at(treeIndex) ?? [];
+  if (leafIndex === undefined || entryAmount === undefined) {
+    throw new Error(`Merkle tree has no leaf at position ${treeIndex}`);
+  }
+
+  return {
+    amount: entryAmount,
+    index: Number(leafIndex),
+    proof: tree.getProof(treeIndex) as Hex[],
+  };
+}
+
+/**
+ * Looks up the claim data for an address in a loaded tree.
+ * @returns The index, amount and proof, or null if the address is not a recipient
+ */
+export function lookupClaimData(
+  { tree, addressIndex }: IndexedAirdropTree,
+  address: string,
+): ClaimData | null {
+  const treeIndex = addressIndex.get(address.toLowerCase());
+  if (treeIndex === undefined) {
+    return null;
+  }
+  return getClaimDataAt(tree, treeIndex);
+}
+
+/**
+ * Checks a proof that didn't come from a full tree (e.g. a proof shard or a client) against a root.
+ */
+export function verifyClaimData(root: string, address: string, claimData: ClaimData): boolean {
+  const leaf: SablierLeaf = [claimData.index.toString(), address, claimData.amount];
+  return StandardMerkleTree.verify(root, [...LEAF_ENCODING], leaf, claimData.proof);
+}
@@ -0,0 +1,447 @@
+import { sha256 } from "viem";
+
+/**
+ * Minimal IPFS CID support for content verification: parsing CIDv0/CIDv1 strings and
+ * recomputing the CID of a file the way `ipfs add` does (UnixFS, fixed-size chunks,
+ * balanced DAG). Only sha2-256 multihashes are supported, which covers every CID that
+ * Kubo, Pinata and the Sablier app produce by default.
+ */
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const MULTIHASH_SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 32;
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/** UnixFS `Data.Type` value for file nodes */
+const UNIXFS_FILE = 2;
+
+/**
+ * Importer settings that determine a file's CID.
+ * `ipfs add` uses 256 KiB chunks and 174 links per node; newer JS tooling (Helia, ipfs-car)
+ * keeps the chunk size but allows 1024 links, and web3.storage uses 1 MiB chunks.
+ */
+type ImportProfile = {
+  chunkSize: number;
+  maxChildren: number;
+};
+
+const IMPORT_PROFILES: readonly ImportProfile[] = [
+  { chunkSize: 262_144, maxChildren: 174 },
+  { chunkSize: 262_144, maxChildren: 1024 },
+  { chunkSize: 1_048_576, maxChildren: 1024 },
+];
+
+type ParsedCid = {
+  version: 0 | 1;
+  codec: number;
+  /** Full multihash bytes (code, length, digest) */
+  multihash: Uint8Array;
+};
+
+/** A node of the UnixFS DAG, as far as its parent needs to know */
+type DagNode = {
+  /** Binary CID (multihash only for CIDv0) used in parent links */
+  cid: Uint8Array;
+  /** Number of file bytes below this node */
+  fileSize: number;
+  /** Encoded size of this node plus everything below it */
+  totalSize: number;
+};
+
+/* -------------------------------------------------------------------------- */
+/*                                  ENCODINGS                                 */
+/* -------------------------------------------------------------------------- */
+
+function concatBytes(parts: readonly Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
+
+function encodeVarint(value: number): Uint8Array {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining >= 0x80) {
+    bytes.push((remaining % 0x80) | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return Uint8Array.from(bytes);
+}
+
+function decodeVarint(bytes: Uint8Array, offset: number): [value: number, next: number] {
+  let value = 0;
+  let multiplier = 1;
+  for (let index = offset; index < bytes.length && index < offset + 9; index++) {
+    value += (bytes[index] & 0x7f) * multiplier;
+    if (bytes[index] < 0x80) {
+      return [value, index + 1];
+    }
+    multiplier *= 0x80;
+  }
+  throw new Error("Invalid varint in CID");
+}
+
+function decodeBase58(input: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const char of input) {
+    let carry = BASE58_ALPHABET.indexOf(char);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character "${char}" in CID`);
+    }
+    for (let index = 0; index < bytes.length; index++) {
+      carry += bytes[index] * 58;
+      bytes[index] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+  for (const char of input) {
+    if (char !== "1") break;
+    bytes.push(0);
+  }
+  return Uint8Array.from(bytes.reverse());
+}
+
+function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let index = 0; index < digits.length; index++) {
+      carry += digits[index] << 8;
+      digits[index] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+  let leadingZeros = "";
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    leadingZeros += "1";
+  }
+  return (
+    leadingZeros +
+    digits
+      .reverse()
+      .map((digit) => BASE58_ALPHABET[digit])
+      .join("")
+  );
+}
+
+function decodeBase32(input: string): Uint8Array {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of input.toLowerCase()) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base32 character "${char}" in CID`);
+    }
+    buffer = ((buffer << 5) | value) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return Uint8Array.from(bytes);
+}
+
+function encodeBase32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      output += BASE32_ALPHABET[(buffer >> bits) & 0x1f];
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+  return output;
+}
+
+/** Encodes a protobuf length-delimited field */
+function protoBytes(field: number, value: Uint8Array): Uint8Array {
+  return concatBytes([encodeVarint((field << 3) | 2), encodeVarint(value.length), value]);
+}
+
+/** Encodes a protobuf varint field */
+function protoVarint(field: number, value: number): Uint8Array {
+  return concatBytes([encodeVarint(field << 3), encodeVarint(value)]);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    CIDS                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Parses a CID string (CIDv0 `Qm...` or multibase CIDv1 such as `bafy...`)
+ * @throws Error if the string is not a CID this module understands
+ */
+function parseCid(cid: string): ParsedCid {
+  const trimmed = cid.trim();
+
+  if (trimmed.length === 46 && trimmed.startsWith("Qm")) {
+    return { codec: CODEC_DAG_PB, multihash: decodeBase58(trimmed), version: 0 };
+  }
+
+  let bytes: Uint8Array;
+  switch (trimmed[0]) {
+    case "b":
+    case "B":
+      bytes = decodeBase32(trimmed.slice(1));
+      break;
+    case "z":
+      bytes = decodeBase58(trimmed.slice(1));
+      break;
+    default:
+      throw new Error(`Unsupported CID encoding: ${cid}`);
+  }
+
+  const [version, codecOffset] = decodeVarint(bytes, 0);
+  if (version !== 1) {
+    throw new Error(`Unsupported CID version ${version}: ${cid}`);
+  }
+  const [codec, multihashOffset] = decodeVarint(bytes, codecOffset);
+  return { codec, multihash: bytes.slice(multihashOffset), version: 1 };
+}
+
+function sha256Multihash(bytes: Uint8Array): Uint8Array {
+  return concatBytes([Uint8Array.of(MULTIHASH_SHA2_256, SHA2_256_LENGTH), sha256(bytes, "bytes")]);
+}
+
+function binaryCid(version: 0 | 1, codec: number, block: Uint8Array): Uint8Array {
+  const multihash = sha256Multihash(block);
+  return version === 0
+    ? multihash
+    : concatBytes([Uint8Array.of(1), encodeVarint(codec), multihash]);
+}
+
+function formatCid(cid: Uint8Array): string {
+  return cid[0] === MULTIHASH_SHA2_256 ? encodeBase58(cid) : `b${encodeBase32(cid)}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   UNIXFS                                   */
+/* -------------------------------------------------------------------------- */
+
+function encodeDagPbNode(data: Uint8Array, links: readonly DagNode[]): Uint8Array {
+  // dag-pb canonical form: links first, then data. Kubo always writes the (empty) link name.
+  return concatBytes([
+    ...links.map((link) =>
+      protoBytes(
+        2,
+        concatBytes([
+          protoBytes(1, link.cid),
+          protoBytes(2, new Uint8Array()),
+          protoVarint(3, link.totalSize),
+        ]),
+      ),
+    ),
+    protoBytes(1, data),
+  ]);
+}
+
+function createLeaf(chunk: Uint8Array, version: 0 | 1, rawLeaves: boolean): DagNode {
+  if (rawLeaves) {
+    return {
+      cid: binaryCid(version, CODEC_RAW, chunk),
+      fileSize: chunk.length,
+      totalSize: chunk.length,
+    };
+  }
+
+  // Kubo leaves out the data field of an empty file, whose CIDv0 is therefore
+  // QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH
+  const unixFsData = concatBytes([
+    protoVarint(1, UNIXFS_FILE),
+    ...(chunk.length > 0 ? [protoBytes(2, chunk)] : []),
+    protoVarint(3, chunk.length),
+  ]);
+  const block = encodeDagPbNode(unixFsData, []);
+  return {
+    cid: binaryCid(version, CODEC_DAG_PB, block),
+    fileSize: chunk.length,
+    totalSize: block.length,
+  };
+}
+
+function createParent(children: readonly DagNode[], version: 0 | 1): DagNode {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const unixFsData = concatBytes([
+    protoVarint(1, UNIXFS_FILE),
+    protoVarint(3, fileSize),
+    ...children.map((child) => protoVarint(4, child.fileSize)),
+  ]);
+  const block = encodeDagPbNode(unixFsData, children);
+  return {
+    cid: binaryCid(version, CODEC_DAG_PB, block),
+    fileSize,
+    totalSize: block.length + children.reduce((sum, child) => sum + child.totalSize, 0),
+  };
+}
+
+/** Builds a file's UnixFS DAG from its bytes fed in pieces, keeping only unfinished nodes */
+type FileImporter = {
+  /** Adds the next bytes of the file */
+  write: (bytes: Uint8Array) => void;
+  /** Finishes the DAG and returns its root CID in binary form */
+  finish: () => Uint8Array;
+};
+
+function createFileImporter(
+  version: 0 | 1,
+  rawLeaves: boolean,
+  { chunkSize, maxChildren }: ImportProfile,
+): FileImporter {
+  // Nodes waiting for a parent, per level (leaves first). A full level is grouped under a
+  // parent right away, which gives the same balanced layout as grouping level by level.
+  const levels: DagNode[][] = [[]];
+  const chunk = new Uint8Array(chunkSize);
+  let chunkLength = 0;
+  let leafCount = 0;
+
+  const addNode = (node: DagNode, depth: number) => {
+    if (depth === levels.length) {
+      levels.push([]);
+    }
+    levels[depth].push(node);
+    if (levels[depth].length === maxChildren) {
+      addNode(createParent(levels[depth], version), depth + 1);
+      levels[depth] = [];
+    }
+  };
+
+  const addLeaf = () => {
+    addNode(createLeaf(chunk.subarray(0, chunkLength), version, rawLeaves), 0);
+    chunkLength = 0;
+    leafCount++;
+  };
+
+  return {
+    finish: () => {
+      // An empty file is a single empty leaf
+      if (chunkLength > 0 || leafCount === 0) {
+        addLeaf();
+      }
+      // A single node at the top is the root; otherwise group what's left, bottom-up
+      for (let depth = 0; ; depth++) {
+        const nodes = levels[depth];
+        if (depth === levels.length - 1 && nodes.length === 1) {
+          return nodes[0].cid;
+        }
+        levels[depth] = [];
+        if (nodes.length > 0) {
+          addNode(createParent(nodes, version), depth + 1);
+        }
+      }
+    },
+    write: (bytes) => {
+      for (let offset = 0; offset < bytes.length; ) {
+        const length = Math.min(chunkSize - chunkLength, bytes.length - offset);
+        chunk.set(bytes.subarray(offset, offset + length), chunkLength);
+        chunkLength += length;
+        offset += length;
+        if (chunkLength === chunkSize) {
+          addLeaf();
+        }
+      }
+    },
+  };
+}
+
+/** Builds the UnixFS DAG for a file and returns its root CID in binary form */
+function importFile(
+  bytes: Uint8Array,
+  version: 0 | 1,
+  rawLeaves: boolean,
+  profile: ImportProfile,
+): Uint8Array {
+  const importer = createFileImporter(version, rawLeaves, profile);
+  importer.write(bytes);
+  return importer.finish();
+}
+
+/**
+ * Computes the CID `ipfs add` assigns to a file: CIDv0 by default, or CIDv1 with raw leaves
+ * as with `ipfs add --cid-version=1`.
+ *
+ * @param bytes - File contents
+ * @param version - CID version (default: 1)
+ * @returns The CID string (`Qm...` for v0, base32 `baf...` for v1)
+ */
+export function computeFileCid(bytes: Uint8Array, version: 0 | 1 = 1): string {
+  return formatCid(importFile(bytes, version, version === 1, IMPORT_PROFILES[0]));
+}
+
+/**
+ * Computes the same CID as `computeFileCid` from a file read in pieces (e.g. a file stream),
+ * holding one chunk and the unfinished DAG nodes instead of the whole file.
+ *
+ * @param pieces - File contents, in order
+ * @param version - CID version (default: 1)
+ */
+export async function computeStreamCid(
+  pieces: AsyncIterable<Uint8Array>,
+  version: 0 | 1 = 1,
+): Promise<string> {
+  const importer = createFileImporter(version, version === 1, IMPORT_PROFILES[0]);
+  for await (const piece of pieces) {
+    importer.write(piece);
+  }
+  return formatCid(importer.finish());
+}
+
+/**
+ * Checks that `bytes` is the content addressed by `cid`, so an untrusted gateway can't serve
+ * tampered data. Raw CIDs are checked directly against the hash of the bytes; UnixFS CIDs are
+ * checked by re-importing the bytes with common `ipfs add` settings.
+ *
+ * @throws Error if the CID is malformed or uses an unsupported codec or hash function
+ */
+export function verifyCid(cid: string, bytes: Uint8Array): boolean {
+  const expected = parseCid(cid);
+
+  if (expected.multihash[0] !== MULTIHASH_SHA2_256) {
+    throw new Error(`Unsupported multihash in CID ${cid}; only sha2-256 is supported`);
+  }
+
+  if (expected.codec === CODEC_RAW) {
+    return bytesEqual(sha256Multihash(bytes), expected.multihash);
+  }
+  if (expected.codec !== CODEC_DAG_PB) {
+    throw new Error(`Unsupported codec 0x${expected.codec.toString(16)} in CID ${cid}`);
+  }
+
+  const leafModes = expected.version === 0 ? [false] : [true, false];
+  return IMPORT_PROFILES.some((profile) =>
+    leafModes.some((rawLeaves) => {
+      const actual = importFile(bytes, expected.version, rawLeaves, profile);
+      const actualMultihash =
+        expected.version === 0 ? actual : parseCid(formatCid(actual)).multihash;
+      return bytesEqual(actualMultihash, expected.multihash);
+    }),
+  );
+}
@@ -11,6 +11,14 @@ const REVERT_MESSAGES: Record<string, string> = {
   SablierMerkleBase_UnsupportedClaimType: "This claim method is not supported for this campaign.",
 };
 
+/** Shown when the pre-submit check finds that a proof would revert with `InvalidProof` */
+export const PROOF_MISMATCH_MESSAGE =
+  "Your proof does not match this campaign. Please contact the campaign organizer.";
+
+/** Shown when no Merkle root is available for the pre-submit check, so claims are held back */
+export const ROOT_UNAVAILABLE_MESSAGE =
+  "Could not read this campaign's Merkle root to check your proof. Please try again later.";
+
 /** Top-level error name to user-facing message */
 const ERROR_MESSAGES: Record<string, string> = {
   HttpRequestError: "Network error. Please try again.",
@@ -51,3 +59,26 @@ export function sanitizeProof(proof: unknown): `0x${string}`[] {
     return p as `0x${string}`;
   });
 }
+
+/**
+ * Campaign's Merkle tree doesn't match its contract, so every claim would revert with
+ * `InvalidProof`. Thrown by the server when the roots disagree (served as HTTP 503) and
+ * rethrown by the client when it receives that response.
+ */
+export class CampaignMisconfiguredError extends Error {
+  constructor(message = "This campaign is misconfigured. Please contact the campaign organizer.") {
+    super(message);
+    this.name = "CampaignMisconfiguredError";
+  }
+}
+
+/**
+ * Campaign's Merkle tree couldn't be fetched or parsed from its tree source.
+ * Served by the server as HTTP 503 with code TREE_UNAVAILABLE.
+ */
+export class TreeUnavailableError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TreeUnavailableError";
+  }
+}
@@ -0,0 +1,74 @@
+import { verifyCid } from "./cid";
+
+/** Gateways tried in order when a campaign doesn't list its own */
+export const DEFAULT_IPFS_GATEWAYS = [
+  "https://ipfs.io",
+  "https://dweb.link",
+  "https://gateway.pinata.cloud",
+] as const;
+
+/** How long each gateway gets before the next one is tried */
+const DEFAULT_GATEWAY_TIMEOUT_MS = 10_000;
+
+type FetchIpfsOptions = {
+  /** Gateway base URLs, tried in order (default: DEFAULT_IPFS_GATEWAYS) */
+  gateways?: readonly string[];
+  /** Per-gateway timeout in milliseconds (default: DEFAULT_GATEWAY_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Extra fetch options, e.g. Next.js cache settings on the server */
+  init?: RequestInit;
+  /** Called for each gateway that fails, including ones followed by a gateway that succeeds */
+  onGatewayError?: (gateway: string, error: unknown) => void;
+};
+
+/**
+ * Downloads a CID from one gateway and checks the bytes against the CID.
+ * @throws Error on timeout, HTTP error or content mismatch
+ */
+async function fetchFromGateway(
+  gateway: string,
+  cid: string,
+  timeoutMs: number,
+  init?: RequestInit,
+): Promise<Uint8Array> {
+  const url = `${gateway.replace(/\/+$/, "")}/ipfs/${cid}`;
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (!verifyCid(cid, bytes)) {
+    throw new Error("Content does not match the CID");
+  }
+  return bytes;
+}
+
+/**
+ * Downloads a file from IPFS, trying gateways in order. The bytes are checked against the CID,
+ * so a slow, down or dishonest gateway just moves us to the next one.
+ *
+ * @throws AggregateError if every gateway fails
+ */
+export async function fetchIpfsFile(
+  cid: string,
+  {
+    gateways = DEFAULT_IPFS_GATEWAYS,
+    timeoutMs = DEFAULT_GATEWAY_TIMEOUT_MS,
+    init,
+    onGatewayError,
+  }: FetchIpfsOptions = {},
+): Promise<Uint8Array> {
+  const failures: unknown[] = [];
+  for (const gateway of gateways) {
+    try {
+      return await fetchFromGateway(gateway, cid, timeoutMs, init);
+    } catch (error) {
+      onGatewayError?.(gateway, error);
+      failures.push(error);
+    }
+  }
+
+  throw new AggregateError(failures, `All IPFS gateways failed for ${cid}`);
+}
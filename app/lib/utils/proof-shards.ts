@@ -0,0 +1,52 @@
+/**
+ * Layout of precomputed proof shards, shared by the generator and the server.
+ *
+ * A shard directory holds `index.json` (the manifest) plus one `<prefix>.json` per address prefix,
+ * where the prefix is the first `prefix_length` hex characters of the lowercase address after
+ * `0x` (256 shards for a prefix length of 2). The generator picks the length from the recipient
+ * count and records it in the manifest, which readers take it from. Each shard maps lowercase
+ * addresses to `{ index, amount, proof }`.
+ */
+
+/** Shortest and longest prefix lengths; 4 hex characters already make 65,536 shards */
+export const MIN_SHARD_PREFIX_LENGTH = 1;
+export const MAX_SHARD_PREFIX_LENGTH = 4;
+
+/** Recipients per shard the generator aims for when it picks the prefix length */
+const TARGET_SHARD_RECIPIENTS = 2048;
+
+/** Manifest file name inside a shard directory */
+export const SHARD_MANIFEST_FILE = "index.json";
+
+/**
+ * Picks the shortest prefix length that keeps shards to about TARGET_SHARD_RECIPIENTS
+ * recipients on average, so shard size stays flat as campaigns grow.
+ */
+export function chooseShardPrefixLength(recipientCount: number): number {
+  let prefixLength = MIN_SHARD_PREFIX_LENGTH;
+  while (
+    prefixLength < MAX_SHARD_PREFIX_LENGTH &&
+    recipientCount > 16 ** prefixLength * TARGET_SHARD_RECIPIENTS
+  ) {
+    prefixLength++;
+  }
+  return prefixLength;
+}
+
+/** Returns the shard prefix for an address, e.g. "ab" for 0xAB12... with a length of 2 */
+export function getShardPrefix(address: string, prefixLength: number): string {
+  return address.slice(2, 2 + prefixLength).toLowerCase();
+}
+
+/** Returns the file name of the shard holding an address */
+export function getShardFileName(address: string, prefixLength: number): string {
+  return `${getShardPrefix(address, prefixLength)}.json`;
+}
+
+/** Lists every shard prefix of a length, e.g. "00" to "ff" for 2 */
+export function listShardPrefixes(prefixLength: number): string[] {
+  const count = 16 ** prefixLength;
+  return Array.from({ length: count }, (_, value) =>
+    value.toString(16).padStart(prefixLength, "0"),
+  );
+}
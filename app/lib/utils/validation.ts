@@ -1,18 +1,60 @@
-import { isAddress } from "viem";
+import { isAddress, maxUint256 } from "viem";
 import { z } from "zod";
+import type {
+  BatchProofApiResponse,
+  CampaignStats,
+  ClaimData,
+  ProofApiResponse,
+  ProofShard,
+  ProofShardManifest,
+  RevalidateApiResponse,
+  StatsApiResponse,
+  TreeMeta,
+  VerifyProofApiResponse,
+  VerifyProofResult,
+} from "@/lib/types/airdrop.types";
+import { ApiErrorCode } from "@/lib/types/airdrop.types";
+import { MAX_SHARD_PREFIX_LENGTH, MIN_SHARD_PREFIX_LENGTH } from "./proof-shards";
+
+/** Checksummed or lowercase 20-byte hex address, as returned by the API */
+const hexAddressSchema = z.templateLiteral(["0x", z.string().regex(/^[0-9a-fA-F]{40}$/)]);
+
+/** 32-byte hex value: Merkle roots, proof nodes and transaction hashes */
+const bytes32Schema = z.templateLiteral(["0x", z.string().regex(/^[0-9a-fA-F]{64}$/)]);
+
+/** Integer amount in the token's base units, as a decimal string */
+const baseUnitsSchema = z.string().regex(/^\d+$/);
+
+/** Base units that fit a uint256, such as a leaf's amount; larger values can't be hashed into a leaf */
+const uint256BaseUnitsSchema = baseUnitsSchema.refine((value) => BigInt(value) <= maxUint256, {
+  message: "Must fit in a uint256",
+});
 
 /**
  * Ethereum address schema
  */
-export const addressSchema = z.string().refine(isAddress, {
-  message: "Invalid Ethereum address",
-});
+export const addressSchema = z
+  .string()
+  .refine(isAddress, {
+    message: "Invalid Ethereum address",
+  })
+  .meta({ description: "Ethereum address", example: "0x742d35Cc6634C0532925a3b844Bc454e4438f44e" });
+
+/**
+ * ENS name schema, e.g. "vitalik.eth" (full normalization happens when the name is resolved)
+ */
+export const ensNameSchema = z
+  .string()
+  .regex(/^[^\s.]+(\.[^\s.]+)+$/, {
+    message: "Invalid ENS name",
+  })
+  .meta({ description: "ENS name", example: "vitalik.eth" });
 
 /**
- * Query parameters schema for proof endpoint
+ * Query parameters schema for proof endpoint: an address or an ENS name
  */
 export const proofQuerySchema = z.object({
-  address: addressSchema,
+  address: z.union([addressSchema, ensNameSchema]),
 });
 
 /**
@@ -21,3 +63,176 @@ export const proofQuerySchema = z.object({
 export function validateProofQuery(address: string | null) {
   return proofQuerySchema.safeParse({ address });
 }
+
+/**
+ * Maximum number of addresses accepted by the batch proof endpoint
+ */
+export const MAX_BATCH_ADDRESSES = 500;
+
+/**
+ * Request body schema for batch proof endpoint.
+ * Individual addresses are validated one by one so that a single bad entry
+ * is reported in the result map instead of failing the whole batch.
+ */
+export const batchProofBodySchema = z.object({
+  addresses: z
+    .array(z.string())
+    .min(1)
+    .max(MAX_BATCH_ADDRESSES)
+    .meta({ description: "Addresses to look up; malformed entries are reported as invalid" }),
+});
+
+/**
+ * Validates request body for batch proof endpoint
+ */
+export function validateBatchProofBody(body: unknown) {
+  return batchProofBodySchema.safeParse(body);
+}
+
+/**
+ * Request body schema for proof verification endpoint: a claim as it would be sent to the contract
+ */
+export const verifyProofBodySchema = z.object({
+  address: addressSchema,
+  amount: uint256BaseUnitsSchema.meta({ description: "Allocation in token base units" }),
+  index: z.number().int().nonnegative().meta({ description: "Leaf index in the Merkle tree" }),
+  proof: z.array(bytes32Schema).meta({ description: "Merkle proof" }),
+});
+
+/**
+ * Validates request body for proof verification endpoint
+ */
+export function validateVerifyProofBody(body: unknown) {
+  return verifyProofBodySchema.safeParse(body);
+}
+
+/**
+ * Sablier IPFS Merkle tree payload schema (see `IpfsMerkleData`)
+ */
+export const ipfsMerkleDataSchema = z.object({
+  merkle_tree: z.string(),
+  number_of_recipients: z.number().int().nonnegative(),
+  recipients: z.array(z.object({ address: z.string(), amount: z.string() })),
+  root: z.string(),
+  total_amount: z.string(),
+});
+
+// -------------------------------------------------------------------------------------------------
+// API responses. Each schema mirrors its type in `airdrop.types.ts` and feeds `/api/openapi.json`.
+// -------------------------------------------------------------------------------------------------
+
+const apiErrorFields = {
+  code: z.enum(ApiErrorCode).optional().meta({ description: "Error code" }),
+  error: z.string().optional().meta({ description: "Error message" }),
+};
+
+export const treeMetaSchema = z
+  .object({
+    loadedAt: z.iso.datetime().meta({ description: "When the server loaded the tree" }),
+    root: bytes32Schema.meta({ description: "Merkle root of the tree" }),
+  })
+  .meta({ description: "Tree that served the response" }) satisfies z.ZodType<TreeMeta>;
+
+export const claimDataSchema = z.object({
+  amount: uint256BaseUnitsSchema.meta({ description: "Allocation in token base units" }),
+  index: z.number().int().nonnegative().meta({ description: "Leaf index in the Merkle tree" }),
+  proof: z.array(bytes32Schema).meta({ description: "Merkle proof" }),
+}) satisfies z.ZodType<ClaimData>;
+
+export const proofApiResponseSchema = z.object({
+  ...apiErrorFields,
+  address: hexAddressSchema
+    .optional()
+    .meta({ description: "Address that was looked up (resolved if an ENS name was given)" }),
+  claimed: z
+    .boolean()
+    .optional()
+    .meta({ description: "Whether the allocation has been claimed on-chain" }),
+  claimTxHash: bytes32Schema.optional().meta({ description: "Claim transaction, when found" }),
+  data: claimDataSchema.optional(),
+  meta: treeMetaSchema.optional(),
+}) satisfies z.ZodType<ProofApiResponse>;
+
+export const batchProofResultSchema = z.discriminatedUnion("status", [
+  z.object({ data: claimDataSchema, status: z.literal("eligible") }),
+  z.object({ status: z.literal("not_eligible") }),
+  z.object({ status: z.literal("invalid") }),
+]);
+
+export const batchProofApiResponseSchema = z.object({
+  ...apiErrorFields,
+  data: z.record(z.string(), batchProofResultSchema).optional().meta({
+    description: "Results keyed by lowercase address; invalid entries keyed as submitted",
+  }),
+  meta: treeMetaSchema.optional(),
+}) satisfies z.ZodType<BatchProofApiResponse>;
+
+export const campaignStatsSchema = z.object({
+  claimedAmount: baseUnitsSchema
+    .nullable()
+    .meta({ description: "Sum of claimed allocations; null if unreadable on-chain" }),
+  claimedCount: z
+    .number()
+    .int()
+    .nullable()
+    .meta({ description: "Recipients who have claimed; null if unreadable on-chain" }),
+  expiration: z
+    .number()
+    .int()
+    .nullable()
+    .meta({ description: "Claim deadline (Unix seconds, 0 if none); null if unreadable on-chain" }),
+  recipients: z.number().int().meta({ description: "Number of recipients" }),
+  totalAmount: baseUnitsSchema.meta({ description: "Sum of all allocations" }),
+}) satisfies z.ZodType<CampaignStats>;
+
+export const statsApiResponseSchema = z.object({
+  ...apiErrorFields,
+  data: campaignStatsSchema.optional(),
+  meta: treeMetaSchema.optional(),
+}) satisfies z.ZodType<StatsApiResponse>;
+
+export const verifyProofResultSchema = z.object({
+  matchesOnChainRoot: z.boolean().nullable().meta({
+    description:
+      "Whether the proof verifies against the contract's MERKLE_ROOT; null without a contract",
+  }),
+  matchesTreeRoot: z
+    .boolean()
+    .meta({ description: "Whether the proof verifies against the campaign tree's root" }),
+  valid: z
+    .boolean()
+    .meta({ description: "Whether the claim would pass the contract's proof check" }),
+}) satisfies z.ZodType<VerifyProofResult>;
+
+export const verifyProofApiResponseSchema = z.object({
+  ...apiErrorFields,
+  data: verifyProofResultSchema.optional(),
+  meta: treeMetaSchema.optional(),
+}) satisfies z.ZodType<VerifyProofApiResponse>;
+
+export const revalidateApiResponseSchema = z.object({
+  ...apiErrorFields,
+  data: treeMetaSchema.optional(),
+}) satisfies z.ZodType<RevalidateApiResponse>;
+
+// -------------------------------------------------------------------------------------------------
+// Proof shards (see `app/lib/utils/proof-shards.ts`)
+// -------------------------------------------------------------------------------------------------
+
+/**
+ * Proof shard manifest schema (`index.json`)
+ */
+export const proofShardManifestSchema = z.object({
+  number_of_recipients: z.number().int().nonnegative(),
+  prefix_length: z.number().int().min(MIN_SHARD_PREFIX_LENGTH).max(MAX_SHARD_PREFIX_LENGTH),
+  root: z.string(),
+  total_amount: z.string(),
+}) satisfies z.ZodType<ProofShardManifest>;
+
+/**
+ * Proof shard schema (`<prefix>.json`)
+ */
+export const proofShardSchema = z.record(
+  z.string(),
+  claimDataSchema,
+) satisfies z.ZodType<ProofShard>;
@@ -1,10 +1,29 @@
 import type { NextConfig } from "next";
 
+// Static export (`NEXT_PUBLIC_STATIC_EXPORT=true`) builds the claim pages for hosts without a
+// server, e.g. IPFS. API routes can't be exported, so only `.tsx` files (pages and layouts) are
+// picked up and the browser looks proofs up itself (see app/lib/client/static-proofs.ts).
+const isStaticExport = process.env.NEXT_PUBLIC_STATIC_EXPORT === "true";
+
 const nextConfig: NextConfig = {
   compress: true,
   poweredByHeader: false,
   reactCompiler: true,
   reactStrictMode: true,
+  ...(isStaticExport
+    ? { output: "export", pageExtensions: ["tsx"] }
+    : {
+        // Keep the single-campaign API URLs working by routing them to the default campaign
+        // (`DEFAULT_CAMPAIGN_ID` in app/lib/contracts/campaigns.ts)
+        async rewrites() {
+          return [
+            {
+              destination: "/api/airdrop/default/:endpoint/:path*",
+              source: "/api/airdrop/:endpoint(proof|revalidate|stats|verify)/:path*",
+            },
+          ];
+        },
+      }),
 };
 
 export default nextConfig;
@@ -0,0 +1,252 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { extname, relative, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { AirdropRecipient } from "@/lib/utils/airdrop-core";
+import {
+  buildAirdropTree,
+  createAirdropTree,
+  parseMerkleData,
+  validateRecipients,
+} from "@/lib/utils/airdrop-core";
+import type { RecipientInputOptions } from "./lib/recipient-input";
+import {
+  detectFormat,
+  RECIPIENT_INPUT_ARGS,
+  RECIPIENT_INPUT_USAGE,
+  readRecipients,
+  toRecipientInputOptions,
+} from "./lib/recipient-input";
+
+/** One side of the diff: a recipient file or a generated tree */
+type RecipientList = {
+  /** Path relative to the working directory */
+  file: string;
+  root: string;
+  recipients: AirdropRecipient[];
+  totalAmount: string;
+};
+
+type RecipientDiff = {
+  old: Omit<RecipientList, "recipients"> & { numberOfRecipients: number };
+  new: Omit<RecipientList, "recipients"> & { numberOfRecipients: number };
+  added: AirdropRecipient[];
+  removed: AirdropRecipient[];
+  changed: { address: string; oldAmount: string; newAmount: string; delta: string }[];
+  /** New total minus old total, in base units */
+  totalDelta: string;
+};
+
+/** How many entries of each kind the console summary lists */
+const SUMMARY_LIMIT = 20;
+
+/**
+ * Loads a generated `merkle-tree.json` (checked against its root), or a recipient file in any
+ * format the generator accepts, whose root is computed the way the generator would.
+ *
+ * @throws Error if the file can't be parsed, has invalid entries or a tree doesn't match its root
+ */
+function loadRecipientList(path: string, inputOptions: RecipientInputOptions): RecipientList {
+  const format = inputOptions.format ?? detectFormat(path);
+  const raw = format === "json" ? readFileSync(path, "utf-8") : undefined;
+
+  // A JSON object (rather than an array) is a generated tree
+  if (raw?.trimStart().startsWith("{")) {
+    const data = parseMerkleData(raw, path);
+    const { tree } = buildAirdropTree(data);
+    if (tree.root.toLowerCase() !== data.root.toLowerCase()) {
+      throw new Error(`Tree root ${tree.root} in ${path} does not match its root ${data.root}`);
+    }
+    return {
+      file: relative(process.cwd(), path),
+      recipients: data.recipients,
+      root: data.root,
+      totalAmount: data.total_amount,
+    };
+  }
+
+  const rows = readRecipients(path, inputOptions);
+  validateRecipients(rows);
+  const recipients = rows.map(({ address, amount }) => ({ address, amount }));
+  return {
+    file: relative(process.cwd(), path),
+    recipients,
+    root: createAirdropTree(recipients).root,
+    totalAmount: recipients.reduce((sum, { amount }) => sum + BigInt(amount), 0n).toString(),
+  };
+}
+
+/**
+ * Compares two recipient lists by address (case-insensitive). Entries are sorted by address.
+ */
+function diffRecipientLists(oldList: RecipientList, newList: RecipientList): RecipientDiff {
+  const byAddress = (recipients: AirdropRecipient[]) =>
+    new Map(recipients.map((recipient) => [recipient.address.toLowerCase(), recipient]));
+  const oldByAddress = byAddress(oldList.recipients);
+  const newByAddress = byAddress(newList.recipients);
+
+  const added: RecipientDiff["added"] = [];
+  const removed: RecipientDiff["removed"] = [];
+  const changed: RecipientDiff["changed"] = [];
+
+  for (const [key, recipient] of newByAddress) {
+    const previous = oldByAddress.get(key);
+    if (!previous) {
+      added.push(recipient);
+    } else if (BigInt(previous.amount) !== BigInt(recipient.amount)) {
+      changed.push({
+        address: recipient.address,
+        delta: (BigInt(recipient.amount) - BigInt(previous.amount)).toString(),
+        newAmount: recipient.amount,
+        oldAmount: previous.amount,
+      });
+    }
+  }
+  for (const [key, recipient] of oldByAddress) {
+    if (!newByAddress.has(key)) {
+      removed.push(recipient);
+    }
+  }
+
+  const byLowercaseAddress = (a: { address: string }, b: { address: string }) =>
+    a.address.toLowerCase().localeCompare(b.address.toLowerCase());
+  const summarize = ({ recipients, ...list }: RecipientList) => ({
+    ...list,
+    numberOfRecipients: recipients.length,
+  });
+
+  return {
+    added: added.sort(byLowercaseAddress),
+    changed: changed.sort(byLowercaseAddress),
+    new: summarize(newList),
+    old: summarize(oldList),
+    removed: removed.sort(byLowercaseAddress),
+    totalDelta: (BigInt(newList.totalAmount) - BigInt(oldList.totalAmount)).toString(),
+  };
+}
+
+/** Formats a signed base-unit delta with an explicit sign */
+function formatDelta(delta: string): string {
+  return delta.startsWith("-") ? delta : `+${delta}`;
+}
+
+/**
+ * One row per added, removed or changed address
+ */
+function toCsv(diff: RecipientDiff): string {
+  const rows = [
+    "change,address,old_amount,new_amount,delta",
+    ...diff.added.map(({ address, amount }) => `added,${address},0,${amount},${amount}`),
+    ...diff.removed.map(({ address, amount }) => `removed,${address},${amount},0,-${amount}`),
+    ...diff.changed.map(
+      ({ address, delta, newAmount, oldAmount }) =>
+        `changed,${address},${oldAmount},${newAmount},${delta}`,
+    ),
+  ];
+  return `${rows.join("\n")}\n`;
+}
+
+function printEntries<T>(title: string, entries: T[], format: (entry: T) => string): void {
+  if (entries.length === 0) {
+    return;
+  }
+  console.log(`\n${title} (${entries.length}):`);
+  for (const entry of entries.slice(0, SUMMARY_LIMIT)) {
+    console.log(`   ${format(entry)}`);
+  }
+  if (entries.length > SUMMARY_LIMIT) {
+    console.log(`   ... and ${entries.length - SUMMARY_LIMIT} more`);
+  }
+}
+
+function printSummary(diff: RecipientDiff): void {
+  console.log(`\n🌿 Old root: ${diff.old.root} (${diff.old.file})`);
+  console.log(`🌿 New root: ${diff.new.root} (${diff.new.file})`);
+  if (diff.old.root.toLowerCase() === diff.new.root.toLowerCase()) {
+    console.log("✅ Roots are identical");
+  }
+
+  printEntries("➕ Added", diff.added, ({ address, amount }) => `${address}  ${amount}`);
+  printEntries("➖ Removed", diff.removed, ({ address, amount }) => `${address}  ${amount}`);
+  printEntries(
+    "✏️  Changed",
+    diff.changed,
+    ({ address, delta, newAmount, oldAmount }) =>
+      `${address}  ${oldAmount} -> ${newAmount} (${formatDelta(delta)})`,
+  );
+
+  console.log("\n📊 Summary:");
+  console.log(`   Recipients: ${diff.old.numberOfRecipients} -> ${diff.new.numberOfRecipients}`);
+  console.log(
+    `   Added: ${diff.added.length}, removed: ${diff.removed.length}, changed: ${diff.changed.length}`,
+  );
+  console.log(`   Total amount: ${diff.old.totalAmount} -> ${diff.new.totalAmount}`);
+  console.log(`   Total delta: ${formatDelta(diff.totalDelta)}`);
+}
+
+// CLI execution
+const { positionals, values: options } = parseArgs({
+  allowPositionals: true,
+  options: {
+    ...RECIPIENT_INPUT_ARGS,
+    out: { type: "string" },
+  },
+});
+
+let inputOptions: RecipientInputOptions | undefined;
+let invalidOption: string | undefined;
+try {
+  inputOptions = toRecipientInputOptions(options);
+  if (options.out !== undefined && ![".csv", ".json"].includes(extname(options.out))) {
+    throw new Error("--out must end in .json or .csv");
+  }
+} catch (error) {
+  inputOptions = undefined;
+  invalidOption = error instanceof Error ? error.message : String(error);
+}
+
+if (positionals.length !== 2 || !inputOptions) {
+  if (invalidOption) {
+    console.error(`❌ ${invalidOption}`);
+    console.error("");
+  }
+  console.error("Usage: bun run scripts/diff-merkle-tree.ts <old> <new> [options]");
+  console.error("");
+  console.error(
+    "Each side is a recipient file (JSON, CSV or TSV) or a generated merkle-tree.json.",
+  );
+  console.error("");
+  console.error("Options:");
+  console.error("  --out <file>              Also write the diff to a .json or .csv file");
+  for (const line of RECIPIENT_INPUT_USAGE) {
+    console.error(line);
+  }
+  console.error("");
+  console.error("Example:");
+  console.error(
+    "  bun run scripts/diff-merkle-tree.ts data/merkle-tree.v1.json data/recipients.v2.csv --out data/diff.csv",
+  );
+  process.exit(1);
+}
+
+const [oldPath, newPath] = positionals;
+
+try {
+  console.log("🔍 Comparing recipient lists...");
+  const diff = diffRecipientLists(
+    loadRecipientList(resolve(process.cwd(), oldPath), inputOptions),
+    loadRecipientList(resolve(process.cwd(), newPath), inputOptions),
+  );
+  printSummary(diff);
+
+  if (options.out) {
+    const outPath = resolve(process.cwd(), options.out);
+    writeFileSync(
+      outPath,
+      extname(outPath) === ".csv" ? toCsv(diff) : JSON.stringify(diff, null, 2),
+    );
+    console.log(`\n✅ Diff written to: ${outPath}`);
+  }
+} catch (error) {
+  console.error("❌ Error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
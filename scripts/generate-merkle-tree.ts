@@ -1,122 +1,520 @@
-import { readFileSync, writeFileSync } from "node:fs";
-import { join } from "node:path";
-import { StandardMerkleTree } from "@openzeppelin/merkle-tree";
-import { isAddress } from "viem";
+import { mkdirSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { ProofShardManifest } from "@/lib/types/airdrop.types";
+import type { AirdropTree } from "@/lib/utils/airdrop-core";
+import {
+  createAirdropTree,
+  getClaimDataAt,
+  serializeMerkleData,
+  validateRecipients,
+} from "@/lib/utils/airdrop-core";
+import {
+  chooseShardPrefixLength,
+  MAX_SHARD_PREFIX_LENGTH,
+  MIN_SHARD_PREFIX_LENGTH,
+} from "@/lib/utils/proof-shards";
+import type { AllocationPolicy } from "./lib/allocation";
+import {
+  ALLOCATION_ARGS,
+  ALLOCATION_USAGE,
+  allocateBudget,
+  checkAllocation,
+  SCORE_DECIMALS,
+  toAllocationPolicy,
+} from "./lib/allocation";
+import type { ExclusionList } from "./lib/exclusions";
+import { applyExclusions, readExclusionList } from "./lib/exclusions";
+import type { OutputManifest, PinOptions, PinService } from "./lib/ipfs-publish";
+import { PIN_SERVICES, publishTree } from "./lib/ipfs-publish";
+import type { NormalizeOptions } from "./lib/normalize-recipients";
+import { normalizeRecipients } from "./lib/normalize-recipients";
+import { createProofShardsWriter } from "./lib/proof-shards-export";
+import { createProofsWriter } from "./lib/proofs-export";
+import type { RecipientInputOptions } from "./lib/recipient-input";
+import {
+  RECIPIENT_INPUT_ARGS,
+  RECIPIENT_INPUT_USAGE,
+  readRecipients,
+  toRecipientInputOptions,
+} from "./lib/recipient-input";
+import { streamMerkleTree } from "./lib/stream-merkle-tree";
 
 /**
- * Recipient entry format
+ * Writes the manifest and one proof shard per address prefix, so the server can load a single
+ * shard per lookup instead of the whole tree
  */
-type RecipientEntry = {
-  address: string;
-  amount: string;
-};
+function writeProofShards(
+  tree: AirdropTree,
+  manifest: ProofShardManifest,
+  shardsDir: string,
+): void {
+  const writer = createProofShardsWriter(shardsDir, manifest);
+  for (const [treeIndex, [, address]] of tree.entries()) {
+    writer.add(address, getClaimDataAt(tree, treeIndex));
+  }
+  writer.close();
+}
 
 /**
- * Validates recipient entries
+ * Writes every recipient's proof, each verified against the root
  */
-function validateEntries(entries: RecipientEntry[]): void {
-  const seen = new Set<string>();
-
-  for (const [index, entry] of entries.entries()) {
-    // Validate address format
-    if (!isAddress(entry.address)) {
-      throw new Error(`Invalid address at index ${index}: ${entry.address}`);
+function writeProofs(tree: AirdropTree, proofsPath: string): void {
+  const writer = createProofsWriter(proofsPath, tree.root);
+  try {
+    for (const [treeIndex, [, address]] of tree.entries()) {
+      writer.add(address, getClaimDataAt(tree, treeIndex));
     }
+  } finally {
+    writer.close();
+  }
+}
 
-    // Check for duplicates
-    const normalized = entry.address.toLowerCase();
-    if (seen.has(normalized)) {
-      throw new Error(`Duplicate address at index ${index}: ${entry.address}`);
-    }
-    seen.add(normalized);
+type GenerateOptions = {
+  input: RecipientInputOptions;
+  /**
+   * Allocation policy; when set, the input amounts are scores to allocate the budget by, after
+   * exclusions and normalization
+   */
+  allocation?: AllocationPolicy;
+  /** Where to write the allocation report */
+  allocationReportPath?: string;
+  /** Exclusion lists; matching recipients are removed before normalization */
+  exclusionLists: ExclusionList[];
+  /** Share excluded amounts pro rata among the remaining recipients instead of leaving them out */
+  redistributeExcluded?: boolean;
+  /** Where to write the exclusion report, if any list is given */
+  exclusionReportPath?: string;
+  normalize: NormalizeOptions;
+  /** Where to write the normalization report; normalization is skipped without one */
+  reportPath?: string;
+  /** Where to write proof shards, if at all */
+  shardsDir?: string;
+  /** Hex characters of the address that pick a shard (default: from the recipient count) */
+  shardPrefixLength?: number;
+  /** Where to write every recipient's proof (`.json` or `.ndjson`), if at all */
+  proofsPath?: string;
+  /** Stream the input instead of loading it, for very large recipient sets */
+  stream?: boolean;
+};
 
-    // Validate amount
-    const amount = BigInt(entry.amount);
-    if (amount <= 0) {
-      throw new Error(`Invalid amount at index ${index}: ${entry.amount}`);
-    }
+function printNextSteps(outputPath: string, { cid, pins, root }: OutputManifest): void {
+  console.log("\n📋 Next steps:");
+  if (pins.length > 0) {
+    console.log(`1. The tree is pinned; check it loads from https://ipfs.io/ipfs/${cid}`);
+  } else {
+    console.log("1. Upload the tree to IPFS as CIDv1, so it gets the CID above:");
+    console.log(`   ipfs add --cid-version=1 ${outputPath}`);
+    console.log("   Or use: Pinata, NFT.Storage, Web3.Storage");
   }
+  console.log("2. Add to .env.local:");
+  console.log(`   NEXT_PUBLIC_MERKLE_ROOT=${root}`);
+  console.log(`   NEXT_PUBLIC_MERKLE_TREE_IPFS_CID=${cid}`);
+  console.log("3. Deploy your airdrop contract with this Merkle root and ipfsCID:");
+  console.log(`   ${root}`);
+  console.log(`   ${cid}`);
 }
 
 /**
  * Generates a Merkle tree from recipient data
+ * @returns The Merkle root
  */
-function generateMerkleTree(inputPath: string, outputPath: string): void {
+function generateMerkleTree(
+  inputPath: string,
+  outputPath: string,
+  {
+    input,
+    allocation,
+    allocationReportPath,
+    exclusionLists,
+    redistributeExcluded,
+    exclusionReportPath,
+    normalize,
+    proofsPath,
+    reportPath,
+    shardsDir,
+    shardPrefixLength,
+  }: GenerateOptions,
+): string {
   console.log("🌳 Generating Merkle tree...");
   console.log(`📖 Reading recipients from: ${inputPath}`);
 
   // Read and parse input file
-  const fileContent = readFileSync(inputPath, "utf-8");
-  const recipients: RecipientEntry[] = JSON.parse(fileContent);
+  const inputRecipients = readRecipients(inputPath, input);
+
+  console.log(`✅ Found ${inputRecipients.length} recipients`);
+
+  let recipients = inputRecipients;
+  if (exclusionLists.length > 0) {
+    console.log("🚫 Applying exclusion lists...");
+    const filtered = applyExclusions(recipients, exclusionLists, {
+      redistribute: redistributeExcluded,
+    });
+    recipients = filtered.recipients;
 
-  console.log(`✅ Found ${recipients.length} recipients`);
+    const { excluded, excludedAmount } = filtered.report;
+    console.log(
+      allocation
+        ? `✅ Excluded ${excluded.length} recipients before allocating the budget`
+        : `✅ Excluded ${excluded.length} recipients (${excludedAmount} base units, ${redistributeExcluded ? "redistributed pro rata" : "left out"})`,
+    );
+    if (exclusionReportPath) {
+      writeFileSync(exclusionReportPath, JSON.stringify(filtered.report, null, 2));
+      console.log(`📝 Exclusion report written to: ${exclusionReportPath}`);
+    }
+  }
+
+  if (reportPath) {
+    console.log("🧹 Normalizing entries...");
+    const normalized = normalizeRecipients(recipients, normalize);
+    recipients = normalized.recipients;
+
+    const { checksummed, merged, reindexed } = normalized.report;
+    writeFileSync(reportPath, JSON.stringify(normalized.report, null, 2));
+    console.log(
+      `✅ Merged ${merged.length} duplicate addresses, checksummed ${checksummed.length}, reindexed ${reindexed.length}`,
+    );
+    console.log(`📝 Report written to: ${reportPath}`);
+  }
+
+  if (allocation) {
+    console.log(
+      `⚖️  Allocating ${allocation.budget} base units by ${allocation.weighting} score...`,
+    );
+    const allocated = allocateBudget(recipients, allocation);
+    recipients = allocated.recipients;
+
+    const { capped, dropped } = allocated.report;
+    console.log(
+      `✅ Allocated to ${recipients.length} recipients, ${capped.length} at a cap, ${dropped.length} dropped`,
+    );
+    if (allocationReportPath) {
+      writeFileSync(allocationReportPath, JSON.stringify(allocated.report, null, 2));
+      console.log(`📝 Allocation report written to: ${allocationReportPath}`);
+    }
+  }
 
   // Validate entries
   console.log("🔍 Validating entries...");
-  validateEntries(recipients);
+  validateRecipients(recipients);
+  if (allocation) {
+    checkAllocation(recipients, allocation);
+  }
   console.log("✅ All entries valid");
 
-  // Prepare values for StandardMerkleTree
-  // Format: [index, address, amount] for each recipient (Sablier IPFS standard)
-  const values = recipients.map((r, index) => [index.toString(), r.address, r.amount]);
-
-  // Generate tree with type specification
+  // Leaves are [index, address, amount] (Sablier IPFS standard)
   console.log("🔨 Building Merkle tree...");
-  const tree = StandardMerkleTree.of(values, ["uint", "address", "uint256"]);
-
-  // Get root hash
+  const tree = createAirdropTree(recipients);
   const root = tree.root;
   console.log(`🌿 Merkle root: ${root}`);
 
-  // Calculate total amount
-  const totalAmount = recipients.reduce((sum, r) => sum + BigInt(r.amount), BigInt(0)).toString();
-
-  // Serialize tree data
-  const treeData = tree.dump();
-
   // Prepare output in Sablier IPFS format
-  const output = {
-    merkle_tree: JSON.stringify(treeData),
-    number_of_recipients: recipients.length,
-    recipients: recipients.map((r) => ({
-      address: r.address,
-      amount: r.amount,
-    })),
-    root,
-    total_amount: totalAmount,
-  };
+  const output = serializeMerkleData(tree, recipients);
 
   // Write to output file
   writeFileSync(outputPath, JSON.stringify(output, null, 2));
   console.log(`✅ Tree data written to: ${outputPath}`);
 
-  console.log("\n📋 Next steps:");
-  console.log("1. Upload the tree to IPFS:");
-  console.log(`   ipfs add ${outputPath}`);
-  console.log("   Or use: Pinata, NFT.Storage, Web3.Storage");
-  console.log("2. Add to .env.local:");
-  console.log(`   NEXT_PUBLIC_MERKLE_ROOT=${root}`);
-  console.log("   NEXT_PUBLIC_MERKLE_TREE_IPFS_URL=https://ipfs.io/ipfs/YOUR_CID_HERE");
-  console.log("3. Deploy your airdrop contract with this Merkle root:");
+  if (shardsDir) {
+    console.log("🧩 Writing proof shards...");
+    writeProofShards(
+      tree,
+      {
+        number_of_recipients: output.number_of_recipients,
+        prefix_length: shardPrefixLength ?? chooseShardPrefixLength(recipients.length),
+        root,
+        total_amount: output.total_amount,
+      },
+      shardsDir,
+    );
+    console.log(`✅ Proof shards written to: ${shardsDir}`);
+  }
+
+  if (proofsPath) {
+    console.log("🧾 Writing and verifying proofs...");
+    writeProofs(tree, proofsPath);
+    console.log(`✅ Proofs written to: ${proofsPath}`);
+  }
+  return root;
+}
+
+/**
+ * Generates a Merkle tree from a recipient file streamed line by line. Normalization,
+ * allocation and exclusions need the whole list in memory, so they aren't available.
+ */
+async function streamGenerateMerkleTree(
+  inputPath: string,
+  outputPath: string,
+  {
+    input,
+    allocation,
+    exclusionLists,
+    proofsPath,
+    reportPath,
+    shardsDir,
+    shardPrefixLength,
+  }: GenerateOptions,
+): Promise<string> {
+  if (reportPath || allocation || exclusionLists.length > 0) {
+    throw new Error(
+      "--stream can't be combined with --merge-duplicates, --checksum, --sort, --report, --score-column or --exclude",
+    );
+  }
+
+  console.log("🌳 Generating Merkle tree (streaming)...");
+  console.log(`📖 Reading recipients from: ${inputPath}`);
+  const { root } = await streamMerkleTree(inputPath, outputPath, input, {
+    proofsPath,
+    shardPrefixLength,
+    shardsDir,
+  });
+  console.log(`✅ Tree data written to: ${outputPath}`);
+  if (shardsDir) {
+    console.log(`✅ Proof shards written to: ${shardsDir}`);
+  }
+  if (proofsPath) {
+    console.log(`✅ Proofs written to: ${proofsPath}`);
+  }
+  return root;
 }
 
 // CLI execution
-const args = process.argv.slice(2);
+const { positionals, values: options } = parseArgs({
+  allowPositionals: true,
+  options: {
+    ...RECIPIENT_INPUT_ARGS,
+    ...ALLOCATION_ARGS,
+    "allocation-report": { type: "string" },
+    checksum: { type: "boolean" },
+    exclude: { multiple: true, type: "string" },
+    "exclusion-report": { type: "string" },
+    manifest: { type: "string" },
+    "merge-duplicates": { type: "boolean" },
+    pin: { type: "string" },
+    "pin-endpoint": { type: "string" },
+    "pin-token": { type: "string" },
+    proofs: { type: "string" },
+    "redistribute-excluded": { type: "boolean" },
+    report: { type: "string" },
+    "score-column": { type: "string" },
+    "shard-prefix-length": { type: "string" },
+    shards: { type: "string" },
+    sort: { type: "boolean" },
+    stream: { type: "boolean" },
+  },
+});
+
+let input: RecipientInputOptions | undefined;
+let allocation: AllocationPolicy | undefined;
+let shardPrefixLength: number | undefined;
+let invalidOption: string | undefined;
+try {
+  input = toRecipientInputOptions(options);
+  allocation = toAllocationPolicy(options, options["score-column"], input.decimals);
+  if (allocation && options["amount-column"]) {
+    throw new Error("--score-column replaces --amount-column; pass only one");
+  }
+  if (allocation && options["redistribute-excluded"]) {
+    throw new Error(
+      "--redistribute-excluded can't be combined with --score-column: excluded addresses are left out before the budget is allocated, so it already goes to the rest",
+    );
+  }
+  if (options["shard-prefix-length"] !== undefined) {
+    shardPrefixLength = Number(options["shard-prefix-length"]);
+    if (
+      !Number.isInteger(shardPrefixLength) ||
+      shardPrefixLength < MIN_SHARD_PREFIX_LENGTH ||
+      shardPrefixLength > MAX_SHARD_PREFIX_LENGTH
+    ) {
+      throw new Error(
+        `--shard-prefix-length must be an integer between ${MIN_SHARD_PREFIX_LENGTH} and ${MAX_SHARD_PREFIX_LENGTH}`,
+      );
+    }
+    if (!options.shards) {
+      throw new Error("--shard-prefix-length needs --shards");
+    }
+  }
+  if (options.pin !== undefined && !PIN_SERVICES.includes(options.pin as PinService)) {
+    throw new Error(`--pin must be one of ${PIN_SERVICES.join(", ")}`);
+  }
+  if (options.pin === undefined && (options["pin-endpoint"] || options["pin-token"])) {
+    throw new Error("--pin-endpoint and --pin-token need --pin");
+  }
+} catch (error) {
+  invalidOption = error instanceof Error ? error.message : String(error);
+}
 
-if (args.length !== 2) {
-  console.error("Usage: bun run scripts/generate-merkle-tree.ts <input.json> <output.json>");
+if (positionals.length !== 2 || !input || invalidOption) {
+  if (invalidOption) {
+    console.error(`❌ ${invalidOption}`);
+    console.error("");
+  }
+  console.error("Usage: bun run scripts/generate-merkle-tree.ts <input> <output.json> [options]");
+  console.error("");
+  console.error(
+    "Input is a JSON array of { address, amount }, or a CSV/TSV file with a header row.",
+  );
+  console.error("");
+  console.error("Options:");
+  for (const line of RECIPIENT_INPUT_USAGE) {
+    console.error(line);
+  }
+  console.error(
+    "  --score-column <name>     Allocate a budget by the scores in this column or JSON field",
+  );
+  for (const line of ALLOCATION_USAGE) {
+    console.error(line);
+  }
+  console.error("  --allocation-report <file>");
+  console.error(
+    "                            Where to record the policy, capped and dropped entries",
+  );
+  console.error("                            (default: <output>.allocation.json)");
+  console.error(
+    "  --exclude <file>          Drop recipients on an exclusion list (repeatable, one address per line)",
+  );
+  console.error(
+    "  --redistribute-excluded   Share excluded amounts pro rata instead of leaving them out",
+  );
+  console.error(
+    "  --exclusion-report <file> Where to list excluded entries and the rules that matched",
+  );
+  console.error("                            (default: <output>.exclusions.json)");
+  console.error(
+    "  --merge-duplicates        Merge repeated addresses (any case) by summing their amounts",
+  );
+  console.error("  --checksum                Rewrite addresses in EIP-55 checksum form");
+  console.error(
+    "  --sort                    Sort recipients by address, so the same list gives the same root",
+  );
+  console.error(
+    "  --report <file>           Where to list the changes made by the three options above",
+  );
+  console.error("                            (default: <output>.report.json)");
+  console.error("  --shards <dir>            Also write per-address-prefix proof shards to <dir>");
+  console.error(
+    `  --shard-prefix-length <n> Address hex characters per shard prefix, ${MIN_SHARD_PREFIX_LENGTH} to ${MAX_SHARD_PREFIX_LENGTH}`,
+  );
+  console.error("                            (default: from the recipient count)");
+  console.error(
+    "  --proofs <file>           Also write every recipient's proof to a .json or .ndjson file",
+  );
+  console.error(
+    "  --stream                  Read NDJSON/CSV/TSV line by line, for very large recipient sets",
+  );
+  console.error("  --manifest <file>         Where to record the output's IPFS CID and pins");
+  console.error("                            (default: <output>.manifest.json)");
+  console.error("  --pin <service>           Also pin the output through kubo or pinata");
+  console.error(
+    "  --pin-endpoint <url>      Pinning API (default: http://127.0.0.1:5001 for kubo,",
+  );
+  console.error("                            https://api.pinata.cloud for pinata)");
+  console.error(
+    "  --pin-token <token>       Bearer token for the pinning API (default: IPFS_PIN_TOKEN)",
+  );
   console.error("");
-  console.error("Example:");
+  console.error("Examples:");
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/recipients.json data/merkle-tree.json --shards data/proofs",
+  );
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/recipients.csv data/merkle-tree.json --decimals 18",
+  );
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/snapshot.csv data/merkle-tree.json --merge-duplicates --checksum --sort",
+  );
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/scores.csv data/merkle-tree.json --score-column score --budget 1000000 --decimals 18 --weighting sqrt --max 5000",
+  );
   console.error(
-    "  bun run scripts/generate-merkle-tree.ts data/recipients.json data/merkle-tree.json",
+    "  bun run scripts/generate-merkle-tree.ts data/snapshot.csv data/merkle-tree.json --exclude data/sanctions.txt --redistribute-excluded",
+  );
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/snapshot.ndjson data/merkle-tree.json --stream",
+  );
+  console.error(
+    "  bun run scripts/generate-merkle-tree.ts data/recipients.json data/merkle-tree.json --pin pinata",
   );
   process.exit(1);
 }
 
-const [inputPath, outputPath] = args;
+const [inputPath, outputPath] = positionals;
+const normalize: NormalizeOptions = {
+  checksum: options.checksum,
+  mergeDuplicates: options["merge-duplicates"],
+  sort: options.sort,
+};
+const reportPath =
+  options.report ??
+  (Object.values(normalize).some(Boolean)
+    ? `${outputPath.replace(/\.json$/, "")}.report.json`
+    : undefined);
+
+const manifestPath = resolve(
+  process.cwd(),
+  options.manifest ?? `${outputPath.replace(/\.json$/, "")}.manifest.json`,
+);
+const pin: PinOptions | undefined = options.pin
+  ? {
+      endpoint: options["pin-endpoint"],
+      service: options.pin as PinService,
+      token: options["pin-token"] ?? process.env.IPFS_PIN_TOKEN,
+    }
+  : undefined;
+
+const generateOptions: Omit<GenerateOptions, "exclusionLists"> = {
+  allocation,
+  allocationReportPath: allocation
+    ? resolve(
+        process.cwd(),
+        options["allocation-report"] ?? `${outputPath.replace(/\.json$/, "")}.allocation.json`,
+      )
+    : undefined,
+  exclusionReportPath: options.exclude
+    ? resolve(
+        process.cwd(),
+        options["exclusion-report"] ?? `${outputPath.replace(/\.json$/, "")}.exclusions.json`,
+      )
+    : undefined,
+  // Scores are decimal numbers, read as fixed point; --decimals applies to the budget and caps
+  input: allocation
+    ? { ...input, amountColumn: options["score-column"], decimals: SCORE_DECIMALS }
+    : input,
+  normalize,
+  proofsPath: options.proofs && resolve(process.cwd(), options.proofs),
+  redistributeExcluded: options["redistribute-excluded"],
+  reportPath: reportPath && resolve(process.cwd(), reportPath),
+  shardPrefixLength,
+  shardsDir: options.shards && resolve(process.cwd(), options.shards),
+};
 
 try {
-  generateMerkleTree(join(process.cwd(), inputPath), join(process.cwd(), outputPath));
+  const exclusionLists = (options.exclude ?? []).map((path) =>
+    readExclusionList(resolve(process.cwd(), path)),
+  );
+  const root = options.stream
+    ? await streamGenerateMerkleTree(
+        resolve(process.cwd(), inputPath),
+        resolve(process.cwd(), outputPath),
+        { ...generateOptions, exclusionLists },
+      )
+    : generateMerkleTree(resolve(process.cwd(), inputPath), resolve(process.cwd(), outputPath), {
+        ...generateOptions,
+        exclusionLists,
+      });
+
+  console.log(
+    pin
+      ? `📌 Computing the IPFS CID and pinning through ${pin.service}...`
+      : "🧮 Computing the IPFS CID...",
+  );
+  const manifest = await publishTree(resolve(process.cwd(), outputPath), manifestPath, root, pin);
+  console.log(`🆔 IPFS CID: ${manifest.cid}`);
+  for (const { endpoint } of manifest.pins) {
+    console.log(`✅ Pinned through ${endpoint}`);
+  }
+  console.log(`📝 Manifest written to: ${manifestPath}`);
+  printNextSteps(resolve(process.cwd(), outputPath), manifest);
 } catch (error) {
   console.error("❌ Error:", error instanceof Error ? error.message : error);
   process.exit(1);
@@ -0,0 +1,420 @@
+import { formatUnits } from "viem";
+import { distributeProRata } from "./pro-rata";
+import type { InputRow } from "./recipient-input";
+import { toBaseUnits } from "./recipient-input";
+
+/**
+ * Turns snapshot scores into token amounts for a fixed budget. Each score is weighted (as is, by
+ * square root or by tier), and the budget is split in proportion to the weights, with every
+ * address held between the min and max caps. Allocations below the dust threshold are dropped
+ * and the budget is split again among the rest. Amounts always sum to the budget to the wei.
+ *
+ * Scores are read as fixed-point integers (`SCORE_DECIMALS`), so exclusion lists and duplicate
+ * merging can run on them before the budget is allocated.
+ */
+
+export const WEIGHTINGS = ["linear", "sqrt", "tiered"] as const;
+
+export type Weighting = (typeof WEIGHTINGS)[number];
+
+/** Scores from `minScore` up to the next tier's get `weight` */
+export type Tier = { minScore: string; weight: string };
+
+export type AllocationPolicy = {
+  /** Exact total to allocate, in base units */
+  budget: bigint;
+  weighting: Weighting;
+  /** Tiers for tiered weighting; scores below the lowest tier get nothing */
+  tiers?: Tier[];
+  /** Smallest amount per address, in base units */
+  min?: bigint;
+  /** Largest amount per address, in base units */
+  max?: bigint;
+  /** Allocations below this are dropped, in base units */
+  dust?: bigint;
+};
+
+/** What the allocation did; rows name entries in the input file, and scores are decimals */
+export type AllocationReport = {
+  /** The policy used, with amounts in base units */
+  policy: {
+    budget: string;
+    weighting: Weighting;
+    tiers?: Tier[];
+    min?: string;
+    max?: string;
+    dust?: string;
+  };
+  inputRecipients: number;
+  outputRecipients: number;
+  totalAmount: string;
+  /** Entries left out: a zero weight, or an allocation below the dust threshold */
+  dropped: { row: string; address: string; score: string; reason: "dust" | "zero weight" }[];
+  /** Entries held at a cap rather than their pro-rata share */
+  capped: { row: string; address: string; score: string; amount: string; cap: "max" | "min" }[];
+};
+
+/** Scores and tier weights are fixed-point numbers with this many decimals */
+export const SCORE_DECIMALS = 18;
+
+const SCORE_SCALE = 10n ** BigInt(SCORE_DECIMALS);
+
+/** `parseArgs` options for allocation policies */
+export const ALLOCATION_ARGS = {
+  budget: { type: "string" },
+  dust: { type: "string" },
+  max: { type: "string" },
+  min: { type: "string" },
+  tiers: { type: "string" },
+  weighting: { type: "string" },
+} as const;
+
+/** Usage lines for `ALLOCATION_ARGS` */
+export const ALLOCATION_USAGE = [
+  "  --budget <amount>         Exact total to allocate by score (required with --score-column)",
+  "  --weighting <weighting>   linear, sqrt or tiered (default: linear)",
+  "  --tiers <score:weight,..> Tier weights for tiered weighting, e.g. 0:1,100:2,1000:5",
+  "  --min <amount>            Smallest amount per address",
+  "  --max <amount>            Largest amount per address",
+  "  --dust <amount>           Drop allocations below this and reallocate their share",
+];
+
+/**
+ * Parses a non-negative decimal score or weight as a fixed-point integer.
+ * @throws Error naming `label` if it isn't one
+ */
+function parseScore(score: string, label: string): bigint {
+  const converted = toBaseUnits(score.trim(), SCORE_DECIMALS);
+  if ("error" in converted) {
+    throw new Error(`Invalid ${label}: ${converted.error}`);
+  }
+  return BigInt(converted.value);
+}
+
+/**
+ * Parses `--tiers`, e.g. "0:1,100:2,1000:5".
+ * @throws Error if a tier isn't `score:weight` or a score is listed twice
+ */
+function parseTiers(value: string): Tier[] {
+  const scores = new Set<bigint>();
+  return value.split(",").map((tier) => {
+    const [minScore, weight, ...rest] = tier.split(":").map((part) => part.trim());
+    if (weight === undefined || rest.length > 0) {
+      throw new Error(`Invalid tier "${tier}": expected score:weight`);
+    }
+    const score = parseScore(minScore, `tier score "${minScore}"`);
+    parseScore(weight, `tier weight "${weight}"`);
+    if (scores.has(score)) {
+      throw new Error(`--tiers lists the score ${minScore} more than once`);
+    }
+    scores.add(score);
+    return { minScore, weight };
+  });
+}
+
+/**
+ * Checks and converts the values of `ALLOCATION_ARGS`. Amounts are token amounts when
+ * `decimals` is set, else base units.
+ *
+ * @returns The policy, or undefined if no score column is given
+ * @throws Error naming the invalid option
+ */
+export function toAllocationPolicy(
+  values: {
+    budget?: string;
+    dust?: string;
+    max?: string;
+    min?: string;
+    tiers?: string;
+    weighting?: string;
+  },
+  scoreColumn: string | undefined,
+  decimals: number | undefined,
+): AllocationPolicy | undefined {
+  if (scoreColumn === undefined) {
+    const given = Object.keys(ALLOCATION_ARGS).filter(
+      (name) => values[name as keyof typeof values] !== undefined,
+    );
+    if (given.length > 0) {
+      throw new Error(`--${given[0]} needs --score-column`);
+    }
+    return undefined;
+  }
+
+  const toAmount = (name: string, value: string | undefined): bigint | undefined => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const converted = toBaseUnits(value, decimals ?? 0);
+    if ("error" in converted) {
+      throw new Error(`--${name}: ${converted.error}`);
+    }
+    return BigInt(converted.value);
+  };
+
+  const budget = toAmount("budget", values.budget);
+  if (budget === undefined) {
+    throw new Error("--budget is required with --score-column");
+  }
+
+  const weighting = (values.weighting ?? "linear") as Weighting;
+  if (!WEIGHTINGS.includes(weighting)) {
+    throw new Error(`--weighting must be one of ${WEIGHTINGS.join(", ")}`);
+  }
+  if (weighting === "tiered" && values.tiers === undefined) {
+    throw new Error("--tiers is required with --weighting tiered");
+  }
+  if (weighting !== "tiered" && values.tiers !== undefined) {
+    throw new Error("--tiers needs --weighting tiered");
+  }
+
+  const min = toAmount("min", values.min);
+  const max = toAmount("max", values.max);
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error("--min can't be larger than --max");
+  }
+
+  return {
+    budget,
+    dust: toAmount("dust", values.dust),
+    max,
+    min,
+    tiers: values.tiers === undefined ? undefined : parseTiers(values.tiers),
+    weighting,
+  };
+}
+
+/** Integer square root, rounded down */
+function sqrt(value: bigint): bigint {
+  if (value < 2n) {
+    return value;
+  }
+  let root = value;
+  let next = (root + 1n) / 2n;
+  while (next < root) {
+    root = next;
+    next = (root + value / root) / 2n;
+  }
+  return root;
+}
+
+/** Weighs a fixed-point score by the policy's weighting */
+function toWeight(
+  score: bigint,
+  weighting: Weighting,
+  tiers: { minScore: bigint; weight: bigint }[],
+): bigint {
+  switch (weighting) {
+    case "linear":
+      return score;
+    case "sqrt":
+      return sqrt(score * SCORE_SCALE);
+    case "tiered":
+      return tiers.findLast(({ minScore }) => score >= minScore)?.weight ?? 0n;
+  }
+}
+
+/** A share that rounds down to nothing can't be claimed, so it counts as dust too */
+function effectiveDust({ dust }: AllocationPolicy): bigint {
+  return dust && dust > 1n ? dust : 1n;
+}
+
+type Cap = "max" | "min";
+
+/**
+ * Splits `budget` in proportion to `weights` (all positive), with every share clamped to
+ * [min, max]: each entry gets clamp(λ·weight), for the λ that makes the amounts sum to the
+ * budget. Free shares are rounded with `distributeProRata`, which keeps them within the caps.
+ *
+ * @throws Error if the caps make the budget impossible to allocate exactly
+ */
+function allocateWithinCaps(
+  budget: bigint,
+  weights: readonly bigint[],
+  min: bigint,
+  max: bigint | undefined,
+): { amounts: bigint[]; caps: (Cap | undefined)[] } {
+  const count = BigInt(weights.length);
+  if (min * count > budget) {
+    throw new Error(`A budget of ${budget} can't give ${count} recipients the minimum of ${min}`);
+  }
+  if (max !== undefined && max * count < budget) {
+    throw new Error(
+      `${count} recipients capped at ${max} can't take the whole budget of ${budget}`,
+    );
+  }
+
+  // Amounts sum to a nondecreasing function of λ, which is linear between the points where an
+  // entry leaves the min cap (λ = min/weight) or reaches the max cap (λ = max/weight). λ is kept
+  // as a fraction, and the search finds the last such point where the sum is still within budget.
+  type Fraction = { num: bigint; den: bigint };
+  const compare = (a: Fraction, b: Fraction) => a.num * b.den - b.num * a.den;
+  const breakpoints: Fraction[] = [{ den: 1n, num: 0n }];
+  for (const weight of weights) {
+    breakpoints.push({ den: weight, num: min });
+    if (max !== undefined) {
+      breakpoints.push({ den: weight, num: max });
+    }
+  }
+  breakpoints.sort((a, b) => {
+    const difference = compare(a, b);
+    return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+  });
+
+  const sumAt = ({ num, den }: Fraction) => {
+    let sum = 0n;
+    for (const weight of weights) {
+      const share = num * weight;
+      sum +=
+        share < min * den ? min * den : max !== undefined && share > max * den ? max * den : share;
+    }
+    return sum;
+  };
+
+  let low = 0;
+  let high = breakpoints.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const point = breakpoints[middle];
+    if (sumAt(point) <= budget * point.den) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  const lower = breakpoints[low];
+  const upper = breakpoints[low + 1];
+
+  // Between the two points, each entry is at a cap or strictly between the caps
+  const caps = weights.map((weight): Cap | undefined => {
+    if (max !== undefined && lower.num * weight >= max * lower.den) return "max";
+    if (!upper || upper.num * weight > min * upper.den) return undefined;
+    return "min";
+  });
+
+  const amounts = caps.map((cap) => (cap === "max" ? (max ?? 0n) : min));
+  const free = caps.flatMap((cap, index) => (cap === undefined ? [index] : []));
+  const freeBudget =
+    budget - amounts.reduce((sum, amount, index) => (caps[index] ? sum + amount : sum), 0n);
+  const shares = distributeProRata(
+    freeBudget,
+    free.map((index) => weights[index]),
+  );
+  for (const [position, index] of free.entries()) {
+    amounts[index] = shares[position];
+  }
+  return { amounts, caps };
+}
+
+/**
+ * Allocates the policy's budget across recipients whose `amount` is a score, as a fixed-point
+ * integer with `SCORE_DECIMALS` decimals. Entries with a zero weight are dropped. Allocations
+ * below the dust threshold are dropped and the budget allocated again among the rest, until none
+ * are left below it.
+ *
+ * @returns The recipients with their allocated amounts, in input order, and what was changed
+ * @throws Error if a score is invalid, nobody has a weight, or the caps can't be met
+ */
+export function allocateBudget(
+  recipients: readonly InputRow[],
+  policy: AllocationPolicy,
+): { recipients: InputRow[]; report: AllocationReport } {
+  const { budget, max, min = 0n, tiers = [], weighting } = policy;
+  const dust = effectiveDust(policy);
+  const parsedTiers = tiers
+    .map(({ minScore, weight }) => ({
+      minScore: parseScore(minScore, "tier score"),
+      weight: parseScore(weight, "tier weight"),
+    }))
+    .sort((a, b) => (a.minScore < b.minScore ? -1 : 1));
+
+  // Dropped entries with their input position, to list them in input order
+  const dropped: [number, AllocationReport["dropped"][number]][] = [];
+  let entries = recipients.flatMap(({ address, amount, row }, index) => {
+    if (!/^\d+$/.test(amount)) {
+      throw new Error(`Invalid score at ${row}: ${amount}`);
+    }
+    const score = formatUnits(BigInt(amount), SCORE_DECIMALS);
+    const weight = toWeight(BigInt(amount), weighting, parsedTiers);
+    if (weight === 0n) {
+      dropped.push([index, { address, reason: "zero weight", row, score }]);
+      return [];
+    }
+    return [{ address, index, row, score, weight }];
+  });
+
+  for (;;) {
+    if (entries.length === 0) {
+      throw new Error("No recipients are left to allocate the budget to");
+    }
+    const { amounts, caps } = allocateWithinCaps(
+      budget,
+      entries.map(({ weight }) => weight),
+      min,
+      max,
+    );
+
+    const dustEntries = entries.filter((_, position) => amounts[position] < dust);
+    if (dustEntries.length > 0) {
+      for (const { address, index, row, score } of dustEntries) {
+        dropped.push([index, { address, reason: "dust", row, score }]);
+      }
+      entries = entries.filter((_, position) => amounts[position] >= dust);
+      continue;
+    }
+
+    return {
+      recipients: entries.map(({ address, row }, position) => ({
+        address,
+        amount: amounts[position].toString(),
+        row,
+      })),
+      report: {
+        capped: entries.flatMap(({ address, row, score }, position) => {
+          const cap = caps[position];
+          return cap ? [{ address, amount: amounts[position].toString(), cap, row, score }] : [];
+        }),
+        dropped: dropped.sort(([a], [b]) => a - b).map(([, entry]) => entry),
+        inputRecipients: recipients.length,
+        outputRecipients: entries.length,
+        totalAmount: budget.toString(),
+        policy: {
+          budget: budget.toString(),
+          dust: policy.dust?.toString(),
+          max: max?.toString(),
+          min: policy.min?.toString(),
+          tiers: policy.tiers,
+          weighting,
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Checks a final recipient list against the policy: amounts sum to the budget and every one is
+ * within the caps and not below the dust threshold. Run on the list the tree is built from.
+ *
+ * @throws Error naming the first entry that breaks the policy
+ */
+export function checkAllocation(recipients: readonly InputRow[], policy: AllocationPolicy): void {
+  const { budget, max, min } = policy;
+  const dust = effectiveDust(policy);
+  let total = 0n;
+  for (const { address, amount, row } of recipients) {
+    const value = BigInt(amount);
+    if (max !== undefined && value > max) {
+      throw new Error(`${address} at ${row} gets ${amount}, above the max of ${max}`);
+    }
+    if (min !== undefined && value < min) {
+      throw new Error(`${address} at ${row} gets ${amount}, below the min of ${min}`);
+    }
+    if (value < dust) {
+      throw new Error(`${address} at ${row} gets ${amount}, below the dust threshold of ${dust}`);
+    }
+    total += value;
+  }
+  if (total !== budget) {
+    throw new Error(`Allocated amounts sum to ${total}, not the budget of ${budget}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { closeSync, openSync, writeSync } from "node:fs";
+
+/** Output is flushed to disk whenever this many characters are buffered */
+const WRITE_CHUNK_SIZE = 1 << 20;
+
+export type ChunkedWriter = {
+  write: (text: string) => void;
+  /** Flushes what's left and closes the file */
+  close: () => void;
+};
+
+/**
+ * Writes a large file piece by piece, buffering output and flushing it in large chunks.
+ */
+export function createChunkedWriter(path: string): ChunkedWriter {
+  const fd = openSync(path, "w");
+  let pending: string[] = [];
+  let pendingLength = 0;
+
+  const flush = () => {
+    writeSync(fd, pending.join(""));
+    pending = [];
+    pendingLength = 0;
+  };
+
+  return {
+    close: () => {
+      flush();
+      closeSync(fd);
+    },
+    write: (text: string) => {
+      pending.push(text);
+      pendingLength += text.length;
+      if (pendingLength >= WRITE_CHUNK_SIZE) {
+        flush();
+      }
+    },
+  };
+}
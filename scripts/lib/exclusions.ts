@@ -0,0 +1,133 @@
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+import { isAddress } from "viem";
+import { distributeProRata } from "./pro-rata";
+import type { InputRow } from "./recipient-input";
+
+/**
+ * Removes blocked recipients (sanctioned addresses, exchange hot wallets, contracts, team
+ * wallets...) before a tree is built, using exclusion lists kept as local files.
+ *
+ * A list has one address per line, optionally followed by a comma and the reason it is listed.
+ * Blank lines, `#` comments and a header line are ignored:
+ *
+ * ```
+ * # OFAC SDN list, 2026-10-01
+ * 0x8589427373d6d84e98730d7795d8f6f8731fda16,Tornado Cash
+ * 0x722122df12d4e14e13ac3b6895a86e84145b6967
+ * ```
+ */
+
+export type ExclusionList = {
+  /** File name, used in the report */
+  name: string;
+  /** Lowercase address -> reason, if the list gives one */
+  entries: Map<string, string | undefined>;
+};
+
+export type ExclusionReport = {
+  lists: { name: string; addresses: number }[];
+  /** Whether excluded amounts were redistributed pro rata instead of left out */
+  redistributed: boolean;
+  /** Each removed entry, where it is in the input file, and every rule that matched it */
+  excluded: { row: string; address: string; amount: string; rules: string[] }[];
+  excludedAmount: string;
+  /** Added to the remaining recipients, in proportion to their amounts */
+  redistributedAmount: string;
+};
+
+/**
+ * Reads an exclusion list file. The first line with content may be an `address` header
+ * (e.g. "address,reason"); every other line must start with an address.
+ * @throws Error naming the line if it isn't an address
+ */
+export function readExclusionList(path: string): ExclusionList {
+  const entries = new Map<string, string | undefined>();
+  const lines = readFileSync(path, "utf-8").split(/\r?\n/);
+  let isFirstContentLine = true;
+
+  for (const [lineIndex, text] of lines.entries()) {
+    const line = text.replace(/#.*$/, "").trim();
+    if (line === "") {
+      continue;
+    }
+
+    const [address, ...reason] = line.split(",").map((field) => field.trim());
+    const isHeader = isFirstContentLine && address.toLowerCase() === "address";
+    isFirstContentLine = false;
+    if (isHeader) {
+      continue;
+    }
+    if (!isAddress(address, { strict: false })) {
+      throw new Error(`Invalid address on line ${lineIndex + 1} of ${path}: ${address}`);
+    }
+    entries.set(address.toLowerCase(), reason.join(",") || undefined);
+  }
+
+  return { entries, name: basename(path) };
+}
+
+/**
+ * Drops every recipient on an exclusion list (matched case-insensitively). With `redistribute`,
+ * the excluded amounts are shared pro rata among the remaining recipients, to the wei, so the
+ * total stays the same.
+ *
+ * @throws Error if amounts aren't base-unit integers or every recipient is excluded
+ */
+export function applyExclusions(
+  recipients: readonly InputRow[],
+  lists: readonly ExclusionList[],
+  { redistribute = false }: { redistribute?: boolean } = {},
+): { recipients: InputRow[]; report: ExclusionReport } {
+  for (const { amount, row } of recipients) {
+    if (!/^\d+$/.test(amount)) {
+      throw new Error(`Invalid amount at ${row}: ${amount}`);
+    }
+  }
+
+  const excluded: ExclusionReport["excluded"] = [];
+  const kept: InputRow[] = [];
+
+  for (const recipient of recipients) {
+    const key = recipient.address.toLowerCase();
+    const rules = lists.flatMap(({ entries, name }) => {
+      if (!entries.has(key)) return [];
+      const reason = entries.get(key);
+      return [reason ? `${name}: ${reason}` : name];
+    });
+
+    if (rules.length > 0) {
+      excluded.push({ ...recipient, rules });
+    } else {
+      kept.push({ ...recipient });
+    }
+  }
+
+  const excludedAmount = excluded.reduce((sum, { amount }) => sum + BigInt(amount), 0n);
+
+  let redistributedAmount = 0n;
+  if (redistribute && excludedAmount > 0n) {
+    if (kept.length === 0) {
+      throw new Error("Every recipient is excluded, so there is nobody to redistribute to");
+    }
+    const shares = distributeProRata(
+      excludedAmount,
+      kept.map(({ amount }) => BigInt(amount)),
+    );
+    for (const [index, share] of shares.entries()) {
+      kept[index].amount = (BigInt(kept[index].amount) + share).toString();
+    }
+    redistributedAmount = excludedAmount;
+  }
+
+  return {
+    recipients: kept,
+    report: {
+      excluded,
+      excludedAmount: excludedAmount.toString(),
+      lists: lists.map(({ entries, name }) => ({ addresses: entries.size, name })),
+      redistributed: redistribute,
+      redistributedAmount: redistributedAmount.toString(),
+    },
+  };
+}
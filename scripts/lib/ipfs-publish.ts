@@ -0,0 +1,122 @@
+import { createReadStream, openAsBlob, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { computeStreamCid } from "@/lib/utils/cid";
+
+/**
+ * Computes the IPFS CID of a generated tree offline and optionally pins the file, so the CID
+ * used as the campaign's `ipfsCID` is known before anything is uploaded. The CID is CIDv1 with
+ * raw leaves, as `ipfs add --cid-version=1` and Pinata's CIDv1 uploads produce; the app checks
+ * downloads against it. The file is streamed, never read whole, so trees from `--stream` work.
+ */
+
+export const PIN_SERVICES = ["kubo", "pinata"] as const;
+
+export type PinService = (typeof PIN_SERVICES)[number];
+
+export type PinOptions = {
+  service: PinService;
+  /** API base URL (default: DEFAULT_PIN_ENDPOINTS) */
+  endpoint?: string;
+  /** Sent as a bearer token */
+  token?: string;
+};
+
+/** Written next to the tree: what was generated and where it is pinned */
+export type OutputManifest = {
+  file: string;
+  /** Bytes in the file */
+  size: number;
+  root: string;
+  /** CIDv1 of the file, to use as the campaign's `ipfsCID` */
+  cid: string;
+  pins: { service: PinService; endpoint: string; cid: string }[];
+};
+
+/** A local Kubo node, and Pinata's hosted API */
+const DEFAULT_PIN_ENDPOINTS: Record<PinService, string> = {
+  kubo: "http://127.0.0.1:5001",
+  pinata: "https://api.pinata.cloud",
+};
+
+/** How long an upload may take */
+const PIN_TIMEOUT_MS = 300_000;
+
+/**
+ * Uploads and pins a file through a Kubo-compatible RPC API or a Pinata-style pinning API,
+ * asking for a CIDv1. The upload is streamed from disk.
+ *
+ * @returns The CID the service reports
+ * @throws Error on an HTTP error or a response without a CID
+ */
+async function pinFile(
+  path: string,
+  name: string,
+  { endpoint, service, token }: Required<Pick<PinOptions, "endpoint">> & PinOptions,
+): Promise<string> {
+  const form = new FormData();
+  form.append("file", await openAsBlob(path), name);
+
+  let url: string;
+  if (service === "kubo") {
+    // cid-version=1 implies raw leaves, matching computeFileCid
+    url = `${endpoint.replace(/\/+$/, "")}/api/v0/add?cid-version=1&pin=true`;
+  } else {
+    url = `${endpoint.replace(/\/+$/, "")}/pinning/pinFileToIPFS`;
+    form.append("pinataOptions", JSON.stringify({ cidVersion: 1 }));
+    form.append("pinataMetadata", JSON.stringify({ name }));
+  }
+
+  const response = await fetch(url, {
+    body: form,
+    headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+    method: "POST",
+    signal: AbortSignal.timeout(PIN_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Pinning through ${url} failed: HTTP ${response.status} ${await response.text()}`,
+    );
+  }
+
+  const result = (await response.json()) as { Hash?: unknown; IpfsHash?: unknown };
+  const cid = service === "kubo" ? result.Hash : result.IpfsHash;
+  if (typeof cid !== "string") {
+    throw new Error(`Pinning through ${url} returned no CID`);
+  }
+  return cid;
+}
+
+/**
+ * Computes the CID of a generated tree, pins it if asked to, and writes the output manifest.
+ * @throws Error if pinning fails or the service stores the file under a different CID
+ */
+export async function publishTree(
+  outputPath: string,
+  manifestPath: string,
+  root: string,
+  pin?: PinOptions,
+): Promise<OutputManifest> {
+  let size = 0;
+  async function* readPieces(): AsyncGenerator<Uint8Array> {
+    for await (const piece of createReadStream(outputPath)) {
+      size += piece.length;
+      yield piece;
+    }
+  }
+  const cid = await computeStreamCid(readPieces());
+  const manifest: OutputManifest = { cid, file: basename(outputPath), pins: [], root, size };
+
+  if (pin) {
+    const endpoint = pin.endpoint ?? DEFAULT_PIN_ENDPOINTS[pin.service];
+    const pinnedCid = await pinFile(outputPath, manifest.file, { ...pin, endpoint });
+    if (pinnedCid !== cid) {
+      throw new Error(
+        `${endpoint} pinned the tree as ${pinnedCid}, but its CIDv1 is ${cid}; check the service's CID version and chunking settings`,
+      );
+    }
+    manifest.pins.push({ cid, endpoint, service: pin.service });
+  }
+
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+  return manifest;
+}
@@ -0,0 +1,138 @@
+import { getAddress, isAddress } from "viem";
+import type { InputRow } from "./recipient-input";
+
+/**
+ * Cleans up recipient lists merged from several sources before a tree is built from them.
+ * Every change is recorded, so the generator can write it to a report for review.
+ */
+
+export type NormalizeOptions = {
+  /** Merge entries for the same address (case-insensitive) by summing their amounts */
+  mergeDuplicates?: boolean;
+  /** Rewrite every address in its EIP-55 checksum form */
+  checksum?: boolean;
+  /** Sort by address, so the same set of recipients always gives the same root */
+  sort?: boolean;
+};
+
+/** What normalization changed; indexes are positions in the input list */
+export type NormalizationReport = {
+  options: Required<NormalizeOptions>;
+  inputRecipients: number;
+  outputRecipients: number;
+  /** Addresses listed more than once, merged into the first entry */
+  merged: { address: string; indexes: number[]; amounts: string[]; total: string }[];
+  /** Addresses rewritten in checksum form */
+  checksummed: { index: number; from: string; to: string }[];
+  /** Recipients whose leaf index differs from their input position, due to merging or sorting */
+  reindexed: { address: string; from: number; to: number }[];
+};
+
+type Entry = InputRow & { inputIndex: number };
+
+/**
+ * Sums the amounts of entries with the same address into the first one.
+ * @throws Error if a duplicate's amount is not a base-unit integer
+ */
+function mergeDuplicates(entries: Entry[], report: NormalizationReport): Entry[] {
+  const groups = new Map<string, Entry[]>();
+  for (const entry of entries) {
+    const key = entry.address.toLowerCase();
+    const group = groups.get(key);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(key, [entry]);
+    }
+  }
+
+  const merged: Entry[] = [];
+  for (const group of groups.values()) {
+    const [first] = group;
+    if (group.length === 1) {
+      merged.push(first);
+      continue;
+    }
+
+    for (const { amount, row } of group) {
+      if (!/^\d+$/.test(amount)) {
+        throw new Error(`Invalid amount at ${row}: ${amount}`);
+      }
+    }
+    const total = group.reduce((sum, { amount }) => sum + BigInt(amount), 0n).toString();
+
+    report.merged.push({
+      address: first.address,
+      amounts: group.map(({ amount }) => amount),
+      indexes: group.map(({ inputIndex }) => inputIndex),
+      total,
+    });
+    merged.push({ ...first, amount: total });
+  }
+  return merged;
+}
+
+/**
+ * Applies the requested normalizations in a fixed order: checksum, merge, then sort. Invalid
+ * addresses are left as they are for `validateRecipients` to report. Recipients keep their input
+ * `row`; a merged entry keeps the first one's.
+ *
+ * @throws Error if duplicates can't be merged because an amount is invalid
+ */
+export function normalizeRecipients(
+  recipients: readonly InputRow[],
+  { checksum = false, mergeDuplicates: merge = false, sort = false }: NormalizeOptions,
+): { recipients: InputRow[]; report: NormalizationReport } {
+  const report: NormalizationReport = {
+    checksummed: [],
+    inputRecipients: recipients.length,
+    merged: [],
+    options: { checksum, mergeDuplicates: merge, sort },
+    outputRecipients: recipients.length,
+    reindexed: [],
+  };
+
+  let entries: Entry[] = recipients.map(({ address, amount, row }, inputIndex) => ({
+    address,
+    amount,
+    inputIndex,
+    row,
+  }));
+
+  if (checksum) {
+    entries = entries.map((entry) => {
+      if (!isAddress(entry.address, { strict: false })) {
+        return entry;
+      }
+      const checksummed = getAddress(entry.address);
+      if (checksummed !== entry.address) {
+        report.checksummed.push({ from: entry.address, index: entry.inputIndex, to: checksummed });
+      }
+      return { ...entry, address: checksummed };
+    });
+  }
+
+  if (merge) {
+    entries = mergeDuplicates(entries, report);
+  }
+
+  if (sort) {
+    // Compare lowercase hex so the order doesn't depend on checksum casing
+    entries.sort((a, b) => {
+      const [left, right] = [a.address.toLowerCase(), b.address.toLowerCase()];
+      return left < right ? -1 : left > right ? 1 : 0;
+    });
+  }
+
+  for (const [index, { address, inputIndex }] of entries.entries()) {
+    if (index !== inputIndex) {
+      report.reindexed.push({ address, from: inputIndex, to: index });
+    }
+  }
+  report.outputRecipients = entries.length;
+
+  return {
+    recipients: entries.map(({ address, amount, row }) => ({ address, amount, row })),
+    report,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Splits `total` across entries in proportion to their weights, in integer base units. Each
+ * entry gets the floor of its exact share, and the wei left over go one each to the entries
+ * with the largest remainders (ties to the earlier entry), so the shares always sum to `total`
+ * and the same input always gives the same split.
+ *
+ * @throws Error if a weight is negative or all weights are zero while `total` isn't
+ */
+export function distributeProRata(total: bigint, weights: readonly bigint[]): bigint[] {
+  if (weights.some((weight) => weight < 0n)) {
+    throw new Error("Pro-rata weights can't be negative");
+  }
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0n);
+  if (weightSum === 0n) {
+    if (total === 0n) {
+      return weights.map(() => 0n);
+    }
+    throw new Error("Can't distribute an amount across entries that all weigh zero");
+  }
+
+  const shares = weights.map((weight) => (total * weight) / weightSum);
+  const remainders = weights.map((weight) => (total * weight) % weightSum);
+
+  let leftover = total - shares.reduce((sum, share) => sum + share, 0n);
+  const byRemainder = weights
+    .map((_, index) => index)
+    .sort((a, b) =>
+      remainders[b] > remainders[a] ? 1 : remainders[b] < remainders[a] ? -1 : a - b,
+    );
+  for (const index of byRemainder) {
+    if (leftover === 0n) break;
+    shares[index] += 1n;
+    leftover -= 1n;
+  }
+  return shares;
+}
@@ -0,0 +1,78 @@
+import { appendFileSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import type { ClaimData, ProofShardManifest } from "@/lib/types/airdrop.types";
+import { getShardPrefix, listShardPrefixes, SHARD_MANIFEST_FILE } from "@/lib/utils/proof-shards";
+
+/**
+ * Writes a proof shard directory (see `app/lib/utils/proof-shards.ts`) one recipient at a time,
+ * so the streaming generator can write shards without holding them in memory. Entries are
+ * buffered per prefix and appended to their shard file whenever the buffers grow large.
+ */
+
+/** Buffered output is appended to the shard files whenever this many characters are pending */
+const FLUSH_THRESHOLD = 16 << 20;
+
+export type ProofShardsWriter = {
+  /** Adds one recipient's claim data to its shard */
+  add: (address: string, claimData: ClaimData) => void;
+  /** Finishes every shard file and writes the manifest */
+  close: () => void;
+};
+
+/**
+ * Opens a shard directory for the tree described by `manifest`, whose `prefix_length` picks
+ * the shards. Shard files are rewritten from scratch.
+ */
+export function createProofShardsWriter(
+  shardsDir: string,
+  manifest: ProofShardManifest,
+): ProofShardsWriter {
+  mkdirSync(shardsDir, { recursive: true });
+  const pending = new Map<string, string[]>();
+  // Prefixes whose shard file has been started in this run
+  const started = new Set<string>();
+  let pendingLength = 0;
+
+  const flush = () => {
+    for (const [prefix, entries] of pending) {
+      const path = join(shardsDir, `${prefix}.json`);
+      if (started.has(prefix)) {
+        appendFileSync(path, `,${entries.join(",")}`);
+      } else {
+        writeFileSync(path, `{${entries.join(",")}`);
+        started.add(prefix);
+      }
+    }
+    pending.clear();
+    pendingLength = 0;
+  };
+
+  return {
+    add: (address, { amount, index, proof }) => {
+      const prefix = getShardPrefix(address, manifest.prefix_length);
+      const entry = `"${address.toLowerCase()}":${JSON.stringify({ amount, index, proof })}`;
+      const entries = pending.get(prefix);
+      if (entries) {
+        entries.push(entry);
+      } else {
+        pending.set(prefix, [entry]);
+      }
+      pendingLength += entry.length;
+      if (pendingLength >= FLUSH_THRESHOLD) {
+        flush();
+      }
+    },
+    close: () => {
+      flush();
+      for (const prefix of listShardPrefixes(manifest.prefix_length)) {
+        const path = join(shardsDir, `${prefix}.json`);
+        if (started.has(prefix)) {
+          appendFileSync(path, "}");
+        } else {
+          writeFileSync(path, "{}");
+        }
+      }
+      writeFileSync(join(shardsDir, SHARD_MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { extname } from "node:path";
+import type { ClaimData } from "@/lib/types/airdrop.types";
+import { verifyClaimData } from "@/lib/utils/airdrop-core";
+import { createChunkedWriter } from "./chunked-writer";
+
+/**
+ * Writes every recipient's proof to one file, so systems other than the proof API (partner
+ * wallets, bots, static hosting) can serve proofs without rebuilding the tree:
+ *
+ * - JSON: `{ "root": "0x...", "proofs": { "<lowercase address>": { amount, index, proof } } }`
+ * - NDJSON: one `{ address, amount, index, proof }` object per line
+ *
+ * Every proof is verified against the root before it is written.
+ */
+
+type ProofsFormat = "json" | "ndjson";
+
+export type ProofsWriter = {
+  /**
+   * Verifies and writes one recipient's proof.
+   * @throws Error if the proof doesn't verify against the root
+   */
+  add: (address: string, claimData: ClaimData) => void;
+  /** Finishes the file */
+  close: () => void;
+};
+
+/** NDJSON for `.ndjson`/`.jsonl` files, else JSON */
+function detectProofsFormat(path: string): ProofsFormat {
+  const extension = extname(path).toLowerCase();
+  return extension === ".ndjson" || extension === ".jsonl" ? "ndjson" : "json";
+}
+
+/**
+ * Opens a proofs file for the tree with the given root. The format is picked from the extension.
+ */
+export function createProofsWriter(path: string, root: string): ProofsWriter {
+  const format = detectProofsFormat(path);
+  const writer = createChunkedWriter(path);
+  let count = 0;
+
+  if (format === "json") {
+    writer.write(`{\n  "root": "${root}",\n  "proofs": {`);
+  }
+
+  return {
+    add: (address, claimData) => {
+      if (!verifyClaimData(root, address, claimData)) {
+        throw new Error(`Proof for ${address} at index ${claimData.index} does not verify`);
+      }
+
+      const { amount, index, proof } = claimData;
+      if (format === "json") {
+        const entry = JSON.stringify({ amount, index, proof });
+        writer.write(`${count === 0 ? "" : ","}\n    "${address.toLowerCase()}": ${entry}`);
+      } else {
+        writer.write(`${JSON.stringify({ address, amount, index, proof })}\n`);
+      }
+      count++;
+    },
+    close: () => {
+      if (format === "json") {
+        writer.write(count === 0 ? "}\n}\n" : "\n  }\n}\n");
+      }
+      writer.close();
+    },
+  };
+}
@@ -0,0 +1,397 @@
+import { createReadStream, readFileSync } from "node:fs";
+import { extname } from "node:path";
+import { createInterface } from "node:readline";
+import type { AirdropRecipient } from "@/lib/utils/airdrop-core";
+
+/**
+ * Reads recipient lists for the generator: a JSON array of `{ address, amount }`, NDJSON with one
+ * such object per line, or a CSV/TSV export from a spreadsheet. Amounts are in token base units
+ * unless `decimals` is set, in which case they are human-readable ("1500.5") and converted exactly.
+ */
+
+const RECIPIENT_INPUT_FORMATS = ["csv", "json", "ndjson", "tsv"] as const;
+
+export type RecipientInputFormat = (typeof RECIPIENT_INPUT_FORMATS)[number];
+
+export type RecipientInputOptions = {
+  /** Input format (default: from the file extension, else JSON) */
+  format?: RecipientInputFormat;
+  /** CSV/TSV header or JSON field of the address column (default: "address") */
+  addressColumn?: string;
+  /** CSV/TSV header or JSON field of the amount column (default: "amount") */
+  amountColumn?: string;
+  /** Token decimals; when set, amounts are decimal token amounts rather than base units */
+  decimals?: number;
+};
+
+/** A recipient plus where it came from ("row 5", "line 3", "index 2"), for error messages */
+export type InputRow = AirdropRecipient & { row: string };
+
+/** Names of the address and amount fields in JSON entries */
+type FieldNames = { address: string; amount: string };
+
+/** Positions of the address and amount columns in a CSV/TSV header */
+type ColumnIndexes = { address: number; amount: number; count: number };
+
+const DELIMITERS = { csv: ",", tsv: "\t" } as const;
+
+/** `parseArgs` options shared by every script that reads recipient files */
+export const RECIPIENT_INPUT_ARGS = {
+  "address-column": { type: "string" },
+  "amount-column": { type: "string" },
+  decimals: { type: "string" },
+  format: { type: "string" },
+} as const;
+
+/** Usage lines for `RECIPIENT_INPUT_ARGS` */
+export const RECIPIENT_INPUT_USAGE = [
+  "  --format <format>         json, ndjson, csv or tsv (default: from the file extension)",
+  '  --address-column <name>   Address column or JSON field (default: "address")',
+  '  --amount-column <name>    Amount column or JSON field (default: "amount")',
+  "  --decimals <n>            Amounts are token amounts (e.g. 1500.5) with <n> decimals,",
+  "                            converted to base units; otherwise they are base units",
+];
+
+/**
+ * Checks and converts the values of `RECIPIENT_INPUT_ARGS`.
+ * @throws Error naming the invalid option
+ */
+export function toRecipientInputOptions(values: {
+  "address-column"?: string;
+  "amount-column"?: string;
+  decimals?: string;
+  format?: string;
+}): RecipientInputOptions {
+  const format = values.format as RecipientInputFormat | undefined;
+  if (format !== undefined && !RECIPIENT_INPUT_FORMATS.includes(format)) {
+    throw new Error(`--format must be one of ${RECIPIENT_INPUT_FORMATS.join(", ")}`);
+  }
+
+  const decimals = values.decimals === undefined ? undefined : Number(values.decimals);
+  if (decimals !== undefined && !(Number.isInteger(decimals) && decimals >= 0 && decimals <= 255)) {
+    throw new Error("--decimals must be an integer between 0 and 255");
+  }
+
+  return {
+    addressColumn: values["address-column"],
+    amountColumn: values["amount-column"],
+    decimals,
+    format,
+  };
+}
+
+/**
+ * Picks the input format from a file extension: `.csv`, `.tsv`/`.tab`, `.ndjson`/`.jsonl`,
+ * else JSON.
+ */
+export function detectFormat(path: string): RecipientInputFormat {
+  switch (extname(path).toLowerCase()) {
+    case ".csv":
+      return "csv";
+    case ".jsonl":
+    case ".ndjson":
+      return "ndjson";
+    case ".tab":
+    case ".tsv":
+      return "tsv";
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Splits delimited text into rows of fields. Fields may be quoted (`"a, b"`), with `""` for a
+ * literal quote, as spreadsheets export them.
+ *
+ * @returns Each row's fields and 1-based line number; blank lines are skipped
+ */
+function parseDelimited(text: string, delimiter: string): { fields: string[]; line: number }[] {
+  const rows: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim() !== "") {
+      rows.push({ fields, line: rowLine });
+    }
+    fields = [];
+    field = "";
+  };
+
+  // Strip a UTF-8 byte order mark, which Excel adds to CSV exports
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  endRow();
+  return rows;
+}
+
+/**
+ * Finds the address and amount columns in a CSV/TSV header row.
+ * @throws Error if a column is missing
+ */
+function findColumns(header: string[], addressColumn: string, amountColumn: string): ColumnIndexes {
+  const columns = header.map((name) => name.trim());
+  const indexes = {
+    address: columns.indexOf(addressColumn),
+    amount: columns.indexOf(amountColumn),
+    count: columns.length,
+  };
+  for (const [name, index] of [
+    [addressColumn, indexes.address],
+    [amountColumn, indexes.amount],
+  ] as const) {
+    if (index === -1) {
+      throw new Error(`Column "${name}" not found in header: ${columns.join(", ")}`);
+    }
+  }
+  return indexes;
+}
+
+/**
+ * Picks the recipient out of a CSV/TSV row.
+ * @throws Error if the row has too few fields
+ */
+function toDelimitedRow(fields: string[], columns: ColumnIndexes, line: number): InputRow {
+  const address = fields[columns.address];
+  const amount = fields[columns.amount];
+  if (address === undefined || amount === undefined) {
+    throw new Error(`Row ${line} has ${fields.length} columns, expected ${columns.count}`);
+  }
+  return { address: address.trim(), amount: amount.trim(), row: `row ${line}` };
+}
+
+/**
+ * Checks a parsed JSON value is a `{ address, amount }` entry.
+ * @throws Error naming `row` if it isn't
+ */
+function toJsonRow(entry: unknown, row: string, fields: FieldNames): InputRow {
+  const { [fields.address]: address, [fields.amount]: amount } = (entry ?? {}) as Record<
+    string,
+    unknown
+  >;
+  // Numeric amounts are accepted as before, though strings avoid JSON's float rounding
+  if (typeof address !== "string" || (typeof amount !== "string" && typeof amount !== "number")) {
+    throw new Error(`Invalid entry at ${row}: expected { ${fields.address}, ${fields.amount} }`);
+  }
+  return { address, amount: String(amount), row };
+}
+
+/**
+ * Reads recipients from CSV/TSV text with a header row.
+ * @throws Error if a column is missing or a row has too few fields
+ */
+function parseDelimitedRecipients(
+  text: string,
+  delimiter: string,
+  addressColumn: string,
+  amountColumn: string,
+): InputRow[] {
+  const [header, ...rows] = parseDelimited(text, delimiter);
+  if (!header) {
+    throw new Error("Input file is empty");
+  }
+
+  const columns = findColumns(header.fields, addressColumn, amountColumn);
+  return rows.map(({ fields, line }) => toDelimitedRow(fields, columns, line));
+}
+
+/**
+ * Reads recipients from a JSON array of `{ address, amount }`.
+ * @throws Error if the JSON is not an array of such objects
+ */
+function parseJsonRecipients(text: string, fields: FieldNames): InputRow[] {
+  const json: unknown = JSON.parse(text);
+  if (!Array.isArray(json)) {
+    throw new Error("JSON input must be an array of { address, amount }");
+  }
+
+  return json.map((entry: unknown, index) => toJsonRow(entry, `index ${index}`, fields));
+}
+
+/**
+ * Parses one NDJSON line.
+ * @throws Error naming the line if it isn't a `{ address, amount }` object
+ */
+function parseNdjsonLine(text: string, line: number, fields: FieldNames): InputRow {
+  let entry: unknown;
+  try {
+    entry = JSON.parse(text);
+  } catch (parseError) {
+    throw new Error(`Line ${line} is not valid JSON`, { cause: parseError });
+  }
+  return toJsonRow(entry, `line ${line}`, fields);
+}
+
+/**
+ * Reads recipients from NDJSON text; blank lines are skipped.
+ */
+function parseNdjsonRecipients(text: string, fields: FieldNames): InputRow[] {
+  return text
+    .split(/\r?\n/)
+    .flatMap((line, index) =>
+      line.trim() === "" ? [] : [parseNdjsonLine(line, index + 1, fields)],
+    );
+}
+
+/**
+ * Converts a decimal token amount to base units without floating point, e.g. "1500.5" with
+ * 18 decimals to "1500500000000000000000".
+ *
+ * @returns The base-unit amount, or an error message
+ */
+export function toBaseUnits(
+  amount: string,
+  decimals: number,
+): { value: string } | { error: string } {
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(amount);
+  if (!match || amount === "" || amount === ".") {
+    return { error: `"${amount}" is not a decimal number` };
+  }
+
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    return {
+      error: `"${amount}" has ${fraction.length} decimal places, but the token has ${decimals}`,
+    };
+  }
+  return { value: BigInt(`${whole}${fraction.padEnd(decimals, "0")}` || "0").toString() };
+}
+
+/**
+ * Reads a recipient file in any supported format. With `decimals`, every amount is converted
+ * to base units; amounts that would lose precision are all reported together. Each recipient
+ * keeps its `row`, so later checks can name the line in the input file.
+ *
+ * @throws Error if the file can't be parsed or an amount can't be converted exactly
+ */
+export function readRecipients(
+  path: string,
+  {
+    format = detectFormat(path),
+    addressColumn = "address",
+    amountColumn = "amount",
+    decimals,
+  }: RecipientInputOptions = {},
+): InputRow[] {
+  const text = readFileSync(path, "utf-8");
+  const fields = { address: addressColumn, amount: amountColumn };
+  const rows =
+    format === "json"
+      ? parseJsonRecipients(text, fields)
+      : format === "ndjson"
+        ? parseNdjsonRecipients(text, fields)
+        : parseDelimitedRecipients(text, DELIMITERS[format], addressColumn, amountColumn);
+
+  if (decimals === undefined) {
+    return rows;
+  }
+
+  const errors: string[] = [];
+  const recipients = rows.map(({ address, amount, row }) => {
+    const converted = toBaseUnits(amount, decimals);
+    if ("error" in converted) {
+      errors.push(`  ${row}: ${converted.error}`);
+      return { address, amount, row };
+    }
+    return { address, amount: converted.value, row };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`${errors.length} amount(s) can't be converted exactly:\n${errors.join("\n")}`);
+  }
+  return recipients;
+}
+
+/**
+ * Reads a recipient file one line at a time, for inputs too large to load at once. Supports
+ * NDJSON, CSV and TSV; a JSON array has to be parsed whole, and quoted CSV fields can't span
+ * lines.
+ *
+ * @throws Error on the first row that can't be parsed or converted exactly, naming its line
+ */
+export async function* streamRecipients(
+  path: string,
+  {
+    format = detectFormat(path),
+    addressColumn = "address",
+    amountColumn = "amount",
+    decimals,
+  }: RecipientInputOptions = {},
+): AsyncGenerator<InputRow> {
+  if (format === "json") {
+    throw new Error("JSON arrays can't be streamed; use NDJSON, CSV or TSV");
+  }
+
+  const lines = createInterface({
+    crlfDelay: Number.POSITIVE_INFINITY,
+    input: createReadStream(path),
+  });
+  let lineNumber = 0;
+  let columns: ColumnIndexes | undefined;
+
+  for await (const text of lines) {
+    lineNumber++;
+    if (text.trim() === "") {
+      continue;
+    }
+
+    let row: InputRow;
+    if (format === "ndjson") {
+      row = parseNdjsonLine(text, lineNumber, { address: addressColumn, amount: amountColumn });
+    } else {
+      const [{ fields }] = parseDelimited(text, DELIMITERS[format]);
+      if (!columns) {
+        columns = findColumns(fields, addressColumn, amountColumn);
+        continue;
+      }
+      row = toDelimitedRow(fields, columns, lineNumber);
+    }
+
+    if (decimals !== undefined) {
+      const converted = toBaseUnits(row.amount, decimals);
+      if ("error" in converted) {
+        throw new Error(`Amount at ${row.row} can't be converted exactly: ${converted.error}`);
+      }
+      row.amount = converted.value;
+    }
+    yield row;
+  }
+
+  if (format !== "ndjson" && !columns) {
+    throw new Error("Input file is empty");
+  }
+}
@@ -0,0 +1,345 @@
+import { bytesToHex, hexToBytes, isAddress, keccak256, maxUint256 } from "viem";
+import { LEAF_ENCODING, verifyClaimData } from "@/lib/utils/airdrop-core";
+import { chooseShardPrefixLength } from "@/lib/utils/proof-shards";
+import { createChunkedWriter } from "./chunked-writer";
+import { createProofShardsWriter } from "./proof-shards-export";
+import { createProofsWriter } from "./proofs-export";
+import type { InputRow, RecipientInputOptions } from "./recipient-input";
+import { streamRecipients } from "./recipient-input";
+
+/**
+ * Builds a Sablier tree from recipient sets too large for `StandardMerkleTree.of`, which holds
+ * every value, hash and node as JS objects and strings. Here the input is streamed line by line
+ * and the tree lives in flat byte arrays, about 120 bytes per recipient:
+ *
+ * 1. Read the input once, validating rows and hashing leaves as they arrive
+ * 2. Sort the leaf hashes and hash the tree bottom-up, as OpenZeppelin does
+ * 3. Read the input again to write the Sablier JSON incrementally, checking sampled proofs (or
+ *    every proof, when a proofs file is written too). Proofs go to the proofs file and proof
+ *    shards as each leaf is written.
+ *
+ * The output is byte-for-byte what the in-memory generator writes for the same recipients.
+ */
+
+const HASH_SIZE = 32;
+const ADDRESS_SIZE = 20;
+
+/** Rows between progress lines */
+const PROGRESS_INTERVAL = 250_000;
+
+/** Proofs checked with the OpenZeppelin verifier while writing, spread across the leaves */
+const SAMPLED_PROOFS = 1000;
+
+/** What the first pass learns about the input */
+type LeafHashes = {
+  count: number;
+  /** `count` leaf hashes, 32 bytes each, in input order */
+  hashes: Uint8Array;
+  totalAmount: bigint;
+};
+
+/** The built tree in OpenZeppelin's layout: node `i` has children `2i + 1` and `2i + 2` */
+type FlatTree = {
+  /** `2 * count - 1` nodes, 32 bytes each */
+  nodes: Uint8Array;
+  /** Node position of each leaf, in input order */
+  treeIndexes: Uint32Array;
+  root: string;
+};
+
+/** Files written alongside the tree */
+export type StreamOutputs = {
+  /** Where to write every recipient's proof (`.json` or `.ndjson`), if at all */
+  proofsPath?: string;
+  /** Where to write proof shards, if at all */
+  shardsDir?: string;
+  /** Hex characters of the address that pick a shard (default: from the recipient count) */
+  shardPrefixLength?: number;
+};
+
+export type StreamSummary = {
+  root: string;
+  numberOfRecipients: number;
+  totalAmount: string;
+};
+
+function elapsed(startedAt: number): string {
+  return `${((Date.now() - startedAt) / 1000).toFixed(1)}s`;
+}
+
+/** Returns a buffer with room for `needed` bytes, doubling the old one if it's too small */
+function ensureCapacity(buffer: Uint8Array, needed: number): Uint8Array {
+  if (needed <= buffer.length) {
+    return buffer;
+  }
+  const grown = new Uint8Array(Math.max(needed, buffer.length * 2));
+  grown.set(buffer);
+  return grown;
+}
+
+/** Writes `value` big-endian into the 32-byte word at `offset` */
+function writeUint256(target: Uint8Array, offset: number, value: bigint): void {
+  let remaining = value;
+  for (let i = offset + HASH_SIZE - 1; i >= offset; i--) {
+    target[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+}
+
+/**
+ * OpenZeppelin's standard leaf hash, `keccak256(keccak256(abi.encode(index, address, amount)))`,
+ * for the Sablier leaf encoding.
+ */
+function hashLeaf(index: number, address: Uint8Array, amount: bigint): Uint8Array {
+  const encoded = new Uint8Array(HASH_SIZE * LEAF_ENCODING.length);
+  writeUint256(encoded, 0, BigInt(index));
+  encoded.set(address, HASH_SIZE * 2 - ADDRESS_SIZE);
+  writeUint256(encoded, HASH_SIZE * 2, amount);
+  return keccak256(keccak256(encoded, "bytes"), "bytes");
+}
+
+/** Compares the 32-byte records `a` and `b` of `buffer` */
+function compareRecords(buffer: Buffer, size: number, a: number, b: number): number {
+  return buffer.compare(buffer, b * size, b * size + size, a * size, a * size + size);
+}
+
+/**
+ * Validates a row the way `validateRecipients` does, except duplicates, which are checked once
+ * every address has been read.
+ *
+ * @throws Error naming the row
+ */
+function parseRow({ address, amount, row }: InputRow): { address: Uint8Array; amount: bigint } {
+  if (!isAddress(address)) {
+    throw new Error(`Invalid address at ${row}: ${address}`);
+  }
+  if (!/^\d+$/.test(amount) || BigInt(amount) <= 0n || BigInt(amount) > maxUint256) {
+    throw new Error(`Invalid amount at ${row}: ${amount}`);
+  }
+  return { address: hexToBytes(address), amount: BigInt(amount) };
+}
+
+/**
+ * First pass: validates every row and hashes its leaf.
+ * @throws Error on the first invalid row, or the first duplicate address
+ */
+async function hashLeaves(
+  inputPath: string,
+  inputOptions: RecipientInputOptions,
+  startedAt: number,
+): Promise<LeafHashes> {
+  let hashes: Uint8Array = new Uint8Array(HASH_SIZE * 1024);
+  let addresses: Uint8Array = new Uint8Array(ADDRESS_SIZE * 1024);
+  let count = 0;
+  let totalAmount = 0n;
+
+  for await (const row of streamRecipients(inputPath, inputOptions)) {
+    const { address, amount } = parseRow(row);
+
+    hashes = ensureCapacity(hashes, (count + 1) * HASH_SIZE);
+    hashes.set(hashLeaf(count, address, amount), count * HASH_SIZE);
+    addresses = ensureCapacity(addresses, (count + 1) * ADDRESS_SIZE);
+    addresses.set(address, count * ADDRESS_SIZE);
+
+    totalAmount += amount;
+    count++;
+    if (count % PROGRESS_INTERVAL === 0) {
+      console.log(`   ${count.toLocaleString("en-US")} rows hashed (${elapsed(startedAt)})`);
+    }
+  }
+
+  if (count === 0) {
+    throw new Error("Input has no recipients");
+  }
+
+  // Duplicates are adjacent once the addresses are sorted
+  const addressBuffer = Buffer.from(addresses.buffer, 0, count * ADDRESS_SIZE);
+  const order = new Uint32Array(count).map((_, index) => index);
+  order.sort((a, b) => compareRecords(addressBuffer, ADDRESS_SIZE, a, b) || a - b);
+  for (let i = 1; i < count; i++) {
+    if (compareRecords(addressBuffer, ADDRESS_SIZE, order[i - 1], order[i]) === 0) {
+      const address = bytesToHex(
+        addresses.subarray(order[i] * ADDRESS_SIZE, (order[i] + 1) * ADDRESS_SIZE),
+      );
+      throw new Error(`Duplicate address at index ${order[i]}: ${address}`);
+    }
+  }
+
+  return { count, hashes: hashes.subarray(0, count * HASH_SIZE), totalAmount };
+}
+
+/**
+ * Lays out the leaves sorted by hash at the end of the node array and hashes each parent from
+ * its sorted children, exactly like OpenZeppelin's `makeMerkleTree`.
+ */
+function buildFlatTree({ count, hashes }: LeafHashes, startedAt: number): FlatTree {
+  const hashBuffer = Buffer.from(hashes.buffer, hashes.byteOffset, hashes.byteLength);
+  const sorted = new Uint32Array(count).map((_, index) => index);
+  sorted.sort((a, b) => compareRecords(hashBuffer, HASH_SIZE, a, b));
+
+  const nodeCount = 2 * count - 1;
+  const nodes = new Uint8Array(nodeCount * HASH_SIZE);
+  const treeIndexes = new Uint32Array(count);
+  for (const [leafIndex, valueIndex] of sorted.entries()) {
+    const treeIndex = nodeCount - 1 - leafIndex;
+    nodes.set(
+      hashes.subarray(valueIndex * HASH_SIZE, (valueIndex + 1) * HASH_SIZE),
+      treeIndex * HASH_SIZE,
+    );
+    treeIndexes[valueIndex] = treeIndex;
+  }
+
+  const nodeBuffer = Buffer.from(nodes.buffer);
+  const pair = new Uint8Array(HASH_SIZE * 2);
+  for (let i = nodeCount - 1 - count; i >= 0; i--) {
+    const left = 2 * i + 1;
+    const right = 2 * i + 2;
+    const [first, second] =
+      compareRecords(nodeBuffer, HASH_SIZE, left, right) <= 0 ? [left, right] : [right, left];
+    pair.set(nodes.subarray(first * HASH_SIZE, (first + 1) * HASH_SIZE), 0);
+    pair.set(nodes.subarray(second * HASH_SIZE, (second + 1) * HASH_SIZE), HASH_SIZE);
+    nodes.set(keccak256(pair, "bytes"), i * HASH_SIZE);
+
+    if (i > 0 && i % PROGRESS_INTERVAL === 0) {
+      console.log(`   ${i.toLocaleString("en-US")} nodes left to hash (${elapsed(startedAt)})`);
+    }
+  }
+
+  return { nodes, root: bytesToHex(nodes.subarray(0, HASH_SIZE)), treeIndexes };
+}
+
+/** The proof of the leaf at `treeIndex`: its sibling at every level, bottom-up */
+function getFlatProof({ nodes }: FlatTree, treeIndex: number): `0x${string}`[] {
+  const proof: `0x${string}`[] = [];
+  for (let index = treeIndex; index > 0; index = Math.floor((index - 1) / 2)) {
+    const sibling = index % 2 === 1 ? index + 1 : index - 1;
+    proof.push(bytesToHex(nodes.subarray(sibling * HASH_SIZE, (sibling + 1) * HASH_SIZE)));
+  }
+  return proof;
+}
+
+/** Escapes JSON text for embedding in a JSON string, as the serializer's `merkle_tree` is */
+function embed(json: string): string {
+  return JSON.stringify(json).slice(1, -1);
+}
+
+/**
+ * Reads the input again, checking it still has `count` rows.
+ * @throws Error if the input changed since the first pass
+ */
+async function* rereadRecipients(
+  inputPath: string,
+  inputOptions: RecipientInputOptions,
+  count: number,
+): AsyncGenerator<[number, InputRow]> {
+  let index = 0;
+  for await (const row of streamRecipients(inputPath, inputOptions)) {
+    if (index >= count) break;
+    yield [index++, row];
+  }
+  if (index !== count) {
+    throw new Error("Input file changed while the tree was being generated");
+  }
+}
+
+/**
+ * Streams a recipient file (NDJSON, CSV or TSV) into a Sablier-format tree file, and optionally
+ * a per-recipient proofs file and proof shards.
+ *
+ * @throws Error on the first invalid row, a duplicate address or a proof that doesn't verify
+ */
+export async function streamMerkleTree(
+  inputPath: string,
+  outputPath: string,
+  inputOptions: RecipientInputOptions,
+  { proofsPath, shardsDir, shardPrefixLength }: StreamOutputs = {},
+): Promise<StreamSummary> {
+  const startedAt = Date.now();
+
+  console.log("🔍 Validating and hashing leaves...");
+  const leaves = await hashLeaves(inputPath, inputOptions, startedAt);
+  console.log(
+    `✅ ${leaves.count.toLocaleString("en-US")} recipients valid (${elapsed(startedAt)})`,
+  );
+
+  console.log("🔨 Building Merkle tree...");
+  const tree = buildFlatTree(leaves, startedAt);
+  console.log(`🌿 Merkle root: ${tree.root} (${elapsed(startedAt)})`);
+
+  console.log("📝 Writing tree data...");
+  const writer = createChunkedWriter(outputPath);
+  const proofsWriter = proofsPath ? createProofsWriter(proofsPath, tree.root) : undefined;
+  const shardsWriter = shardsDir
+    ? createProofShardsWriter(shardsDir, {
+        number_of_recipients: leaves.count,
+        prefix_length: shardPrefixLength ?? chooseShardPrefixLength(leaves.count),
+        root: tree.root,
+        total_amount: leaves.totalAmount.toString(),
+      })
+    : undefined;
+  try {
+    // `merkle_tree` is the `StandardMerkleTree.dump()` JSON, embedded as a string
+    writer.write('{\n  "merkle_tree": "');
+    writer.write(
+      embed(`{"format":"standard-v1","leafEncoding":${JSON.stringify(LEAF_ENCODING)},"tree":[`),
+    );
+    for (let i = 0; i < tree.nodes.length / HASH_SIZE; i++) {
+      const node = bytesToHex(tree.nodes.subarray(i * HASH_SIZE, (i + 1) * HASH_SIZE));
+      writer.write(embed(`${i === 0 ? "" : ","}"${node}"`));
+    }
+    writer.write(embed('],"values":['));
+
+    const sampleEvery = Math.max(1, Math.floor(leaves.count / SAMPLED_PROOFS));
+    for await (const [index, { address, amount }] of rereadRecipients(
+      inputPath,
+      inputOptions,
+      leaves.count,
+    )) {
+      const treeIndex = tree.treeIndexes[index];
+      const leaf = JSON.stringify([index.toString(), address, amount]);
+      // Same key order as OpenZeppelin's dump: value, then treeIndex
+      writer.write(embed(`${index === 0 ? "" : ","}{"value":${leaf},"treeIndex":${treeIndex}}`));
+
+      const sampled = index % sampleEvery === 0 || index === leaves.count - 1;
+      if (proofsWriter || shardsWriter || sampled) {
+        const claimData = { amount, index, proof: getFlatProof(tree, treeIndex) };
+        if (proofsWriter) {
+          // Verifies every proof as it writes it
+          proofsWriter.add(address, claimData);
+        } else if (sampled && !verifyClaimData(tree.root, address, claimData)) {
+          throw new Error(`Proof for ${address} at index ${index} does not verify`);
+        }
+        shardsWriter?.add(address, claimData);
+      }
+      if ((index + 1) % PROGRESS_INTERVAL === 0) {
+        console.log(
+          `   ${(index + 1).toLocaleString("en-US")} leaves written (${elapsed(startedAt)})`,
+        );
+      }
+    }
+    writer.write(embed("]}"));
+    // Only once every leaf is in, so a failed run leaves no manifest
+    shardsWriter?.close();
+    writer.write(`",\n  "number_of_recipients": ${leaves.count},\n  "recipients": [\n`);
+
+    for await (const [index, { address, amount }] of rereadRecipients(
+      inputPath,
+      inputOptions,
+      leaves.count,
+    )) {
+      const entry = `    {\n      "address": ${JSON.stringify(address)},\n      "amount": ${JSON.stringify(amount)}\n    }`;
+      writer.write(`${index === 0 ? "" : ",\n"}${entry}`);
+    }
+    writer.write(`\n  ],\n  "root": "${tree.root}",\n  "total_amount": "${leaves.totalAmount}"\n}`);
+  } finally {
+    writer.close();
+    proofsWriter?.close();
+  }
+  console.log(`✅ Tree data written (${elapsed(startedAt)})`);
+
+  return {
+    numberOfRecipients: leaves.count,
+    root: tree.root,
+    totalAmount: leaves.totalAmount.toString(),
+  };
+}
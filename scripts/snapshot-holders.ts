@@ -0,0 +1,379 @@
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { Address, Chain, PublicClient } from "viem";
+import { createPublicClient, erc20Abi, http, isAddress, parseAbiItem, zeroAddress } from "viem";
+import { mainnet, sepolia } from "viem/chains";
+import type { AirdropRecipient } from "@/lib/utils/airdrop-core";
+import type { RecipientInputFormat } from "./lib/recipient-input";
+import { detectFormat } from "./lib/recipient-input";
+
+const TRANSFER_EVENT = parseAbiItem(
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+);
+
+/** Chains with a default public RPC; any other chain needs --rpc or RPC_URL_<chainId> */
+const CHAINS: readonly Chain[] = [mainnet, sepolia];
+
+/** Blocks per `eth_getLogs` request, halved when the RPC rejects a range */
+const DEFAULT_BATCH_BLOCKS = 10_000n;
+
+/** Addresses checked for code at once with --exclude-contracts */
+const CODE_CHECK_CONCURRENCY = 50;
+
+/** Code of an EIP-7702 delegated account starts with this; such accounts are still EOAs */
+const DELEGATION_PREFIX = "0xef0100";
+
+type SnapshotOptions = {
+  token: Address;
+  /** Balances are taken at the end of this block */
+  block: bigint;
+  /** First block to read logs from, e.g. the token's deployment block */
+  fromBlock: bigint;
+  batchBlocks: bigint;
+  excludeContracts: boolean;
+  excludeZeroAddress: boolean;
+};
+
+type Snapshot = {
+  recipients: AirdropRecipient[];
+  transfers: number;
+  /** Holders dropped by --exclude-contracts */
+  contracts: Address[];
+  /** Tokens burned, which Transfer logs show as sent to the zero address */
+  zeroAddressBalance: bigint;
+  /** Sum of every holder's balance other than the zero address */
+  heldSupply: bigint;
+  /** `totalSupply()` at the block, if the token has it */
+  totalSupply?: bigint;
+};
+
+/**
+ * Connects to the chain through `rpcUrl`, else `RPC_URL_<chainId>`, else the chain's public RPC,
+ * and checks the endpoint serves that chain.
+ *
+ * @throws Error if no RPC is known for the chain or the endpoint serves another chain
+ */
+async function connect(chainId: number, rpcUrl: string | undefined): Promise<PublicClient> {
+  const url = rpcUrl ?? process.env[`RPC_URL_${chainId}`];
+  const chain = CHAINS.find((candidate) => candidate.id === chainId);
+  if (!url && !chain) {
+    throw new Error(`No default RPC for chain ${chainId}; pass --rpc or set RPC_URL_${chainId}`);
+  }
+
+  const client = createPublicClient({ chain, transport: http(url || undefined, { batch: true }) });
+  const servedChainId = await client.getChainId();
+  if (servedChainId !== chainId) {
+    throw new Error(`The RPC serves chain ${servedChainId}, not chain ${chainId}`);
+  }
+  return client;
+}
+
+/** Reads the token's transfers in a block range */
+async function getTransfers(
+  client: PublicClient,
+  token: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<{ from: Address; to: Address; value: bigint }[]> {
+  // strict drops logs that don't decode, such as ERC-721 transfers with an indexed token id
+  const logs = await client.getLogs({
+    address: token,
+    event: TRANSFER_EVENT,
+    fromBlock,
+    strict: true,
+    toBlock,
+  });
+  return logs.map(({ args }) => args);
+}
+
+/**
+ * Replays the token's `Transfer` logs from `fromBlock` to `block`. Ranges the RPC rejects (too
+ * many results, timeouts) are split in half and retried.
+ *
+ * @returns Each address's balance, and the number of transfers read
+ * @throws Error if a single block can't be read or a balance goes negative
+ */
+async function replayTransfers(
+  client: PublicClient,
+  { batchBlocks, block, fromBlock, token }: SnapshotOptions,
+): Promise<{ balances: Map<Address, bigint>; transfers: number }> {
+  const balances = new Map<Address, bigint>();
+  const totalBlocks = block - fromBlock + 1n;
+  let transfers = 0;
+  let batch = batchBlocks;
+  let nextProgress = 10n;
+
+  for (let start = fromBlock; start <= block; ) {
+    const end = start + batch - 1n < block ? start + batch - 1n : block;
+    let logs: Awaited<ReturnType<typeof getTransfers>>;
+    try {
+      logs = await getTransfers(client, token, start, end);
+    } catch (error) {
+      if (batch === 1n) {
+        throw new Error(`Could not read the logs of block ${start}`, { cause: error });
+      }
+      batch /= 2n;
+      continue;
+    }
+
+    for (const { from, to, value } of logs) {
+      // Mints come from the zero address and burns go to it, so it only collects burned tokens
+      if (from !== zeroAddress) {
+        const balance = (balances.get(from) ?? 0n) - value;
+        if (balance < 0n) {
+          throw new Error(
+            `Transfer logs give ${from} a negative balance; the token may change balances without emitting Transfer`,
+          );
+        }
+        balances.set(from, balance);
+      }
+      balances.set(to, (balances.get(to) ?? 0n) + value);
+    }
+    transfers += logs.length;
+
+    const done = ((end - fromBlock + 1n) * 100n) / totalBlocks;
+    if (done >= nextProgress && end < block) {
+      console.log(`   ${done}% of blocks read, ${transfers.toLocaleString("en-US")} transfers`);
+      nextProgress = done - (done % 10n) + 10n;
+    }
+    start = end + 1n;
+  }
+  return { balances, transfers };
+}
+
+/**
+ * Finds the addresses that had contract code at the block. EIP-7702 delegated accounts count as
+ * EOAs, since their owner can still claim.
+ */
+async function findContracts(
+  client: PublicClient,
+  addresses: Address[],
+  block: bigint,
+): Promise<Set<Address>> {
+  const contracts = new Set<Address>();
+  for (let i = 0; i < addresses.length; i += CODE_CHECK_CONCURRENCY) {
+    const batch = addresses.slice(i, i + CODE_CHECK_CONCURRENCY);
+    const codes = await Promise.all(
+      batch.map((address) => client.getCode({ address, blockNumber: block })),
+    );
+    for (const [index, code] of codes.entries()) {
+      if (code && code !== "0x" && !code.startsWith(DELEGATION_PREFIX)) {
+        contracts.add(batch[index]);
+      }
+    }
+  }
+  return contracts;
+}
+
+/**
+ * Rebuilds every holder's balance at the block from the token's `Transfer` logs.
+ *
+ * @returns Holders with a positive balance, largest first, and the figures to check them by
+ * @throws Error if the block is in the future or the logs can't be read
+ */
+async function snapshotHolders(client: PublicClient, options: SnapshotOptions): Promise<Snapshot> {
+  const { block, excludeContracts, excludeZeroAddress, fromBlock, token } = options;
+  const latest = await client.getBlockNumber();
+  if (block > latest) {
+    throw new Error(`Block ${block} is past the chain head (${latest})`);
+  }
+  if (fromBlock > block) {
+    throw new Error(`--from-block ${fromBlock} is after --block ${block}`);
+  }
+
+  console.log(`📜 Reading Transfer logs from block ${fromBlock} to ${block}...`);
+  const { balances, transfers } = await replayTransfers(client, options);
+  console.log(`✅ Read ${transfers.toLocaleString("en-US")} transfers`);
+
+  const zeroAddressBalance = balances.get(zeroAddress) ?? 0n;
+  if (excludeZeroAddress) {
+    balances.delete(zeroAddress);
+  }
+  let holders = [...balances].filter(([, balance]) => balance > 0n);
+  const heldSupply = holders.reduce(
+    (sum, [address, balance]) => (address === zeroAddress ? sum : sum + balance),
+    0n,
+  );
+
+  let contracts: Address[] = [];
+  if (excludeContracts) {
+    console.log(`🔍 Checking ${holders.length} holders for contract code...`);
+    const found = await findContracts(
+      client,
+      holders.map(([address]) => address),
+      block,
+    );
+    contracts = holders.flatMap(([address]) => (found.has(address) ? [address] : []));
+    holders = holders.filter(([address]) => !found.has(address));
+  }
+
+  let totalSupply: bigint | undefined;
+  try {
+    totalSupply = await client.readContract({
+      abi: erc20Abi,
+      address: token,
+      blockNumber: block,
+      functionName: "totalSupply",
+    });
+  } catch {
+    // Not every token implements totalSupply; the check is skipped
+  }
+
+  holders.sort(([a, balanceA], [b, balanceB]) =>
+    balanceA !== balanceB ? (balanceB > balanceA ? 1 : -1) : a.localeCompare(b),
+  );
+  return {
+    contracts,
+    heldSupply,
+    recipients: holders.map(([address, balance]) => ({ address, amount: balance.toString() })),
+    totalSupply,
+    transfers,
+    zeroAddressBalance,
+  };
+}
+
+/** Writes recipients in any format the generator reads, picked from the extension */
+function writeRecipients(
+  path: string,
+  format: RecipientInputFormat,
+  recipients: AirdropRecipient[],
+): void {
+  switch (format) {
+    case "json":
+      writeFileSync(path, `${JSON.stringify(recipients, null, 2)}\n`);
+      return;
+    case "ndjson":
+      writeFileSync(path, recipients.map((recipient) => `${JSON.stringify(recipient)}\n`).join(""));
+      return;
+    case "csv":
+    case "tsv": {
+      const delimiter = format === "csv" ? "," : "\t";
+      const rows = recipients.map(({ address, amount }) => `${address}${delimiter}${amount}\n`);
+      writeFileSync(path, `address${delimiter}amount\n${rows.join("")}`);
+      return;
+    }
+  }
+}
+
+/**
+ * Parses a non-negative integer option.
+ * @throws Error naming the option if it isn't one
+ */
+function toBlockNumber(name: string, value: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+// CLI execution
+const { positionals, values: options } = parseArgs({
+  allowPositionals: true,
+  options: {
+    "batch-blocks": { type: "string" },
+    block: { type: "string" },
+    chain: { type: "string" },
+    "exclude-contracts": { type: "boolean" },
+    "exclude-zero-address": { type: "boolean" },
+    "from-block": { type: "string" },
+    rpc: { type: "string" },
+    token: { type: "string" },
+  },
+});
+
+if (positionals.length !== 1 || !options.token || !options.chain || !options.block) {
+  console.error(
+    "Usage: bun run scripts/snapshot-holders.ts <output> --token <address> --chain <id> --block <n>",
+  );
+  console.error("");
+  console.error(
+    "Rebuilds ERC-20 balances at a block from Transfer logs and writes them as a recipients file",
+  );
+  console.error("(.json, .ndjson, .csv or .tsv) that generate-merkle-tree.ts reads.");
+  console.error("");
+  console.error("Options:");
+  console.error("  --token <address>         Token contract");
+  console.error("  --chain <id>              Chain id, e.g. 1 for Ethereum");
+  console.error("  --block <n>               Block to take balances at (inclusive)");
+  console.error(
+    "  --rpc <url>               RPC endpoint (default: RPC_URL_<chainId>, else the chain's",
+  );
+  console.error("                            public RPC for chains 1 and 11155111)");
+  console.error(
+    "  --from-block <n>          First block to read, e.g. the token's deployment (default: 0)",
+  );
+  console.error(
+    "  --batch-blocks <n>        Blocks per log request, halved when the RPC rejects a range",
+  );
+  console.error("                            (default: 10000)");
+  console.error("  --exclude-contracts       Leave out holders with contract code at the block");
+  console.error(
+    "  --exclude-zero-address    Leave out the zero address, which holds every burned token",
+  );
+  console.error("");
+  console.error("Examples:");
+  console.error(
+    "  bun run scripts/snapshot-holders.ts data/snapshot.csv --token 0x... --chain 1 --block 21000000 --from-block 18000000 --exclude-contracts --exclude-zero-address",
+  );
+  console.error(
+    "  bun run scripts/snapshot-holders.ts data/snapshot.csv --token 0x... --chain 31337 --block 100 --rpc http://127.0.0.1:8545",
+  );
+  process.exit(1);
+}
+
+try {
+  const [outputPath] = positionals;
+  const { token } = options;
+  if (!isAddress(token, { strict: false })) {
+    throw new Error(`--token is not an address: ${token}`);
+  }
+  const chainId = Number(options.chain);
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error("--chain must be a positive integer");
+  }
+  const snapshotOptions: SnapshotOptions = {
+    batchBlocks: options["batch-blocks"]
+      ? toBlockNumber("batch-blocks", options["batch-blocks"])
+      : DEFAULT_BATCH_BLOCKS,
+    block: toBlockNumber("block", options.block),
+    excludeContracts: options["exclude-contracts"] ?? false,
+    excludeZeroAddress: options["exclude-zero-address"] ?? false,
+    fromBlock: options["from-block"] ? toBlockNumber("from-block", options["from-block"]) : 0n,
+    token,
+  };
+  if (snapshotOptions.batchBlocks === 0n) {
+    throw new Error("--batch-blocks must be at least 1");
+  }
+
+  console.log(`📸 Snapshotting holders of ${token} on chain ${chainId} at block ${options.block}`);
+  const client = await connect(chainId, options.rpc);
+  const snapshot = await snapshotHolders(client, snapshotOptions);
+
+  const path = resolve(process.cwd(), outputPath);
+  writeRecipients(path, detectFormat(path), snapshot.recipients);
+
+  const { contracts, heldSupply, recipients, totalSupply, zeroAddressBalance } = snapshot;
+  console.log(`✅ ${recipients.length} holders written to: ${path}`);
+  if (contracts.length > 0) {
+    console.log(`🚫 Left out ${contracts.length} contracts`);
+  }
+  if (zeroAddressBalance > 0n) {
+    console.log(
+      `🔥 ${zeroAddressBalance} base units were burned (sent to the zero address)${options["exclude-zero-address"] ? ", left out" : ""}`,
+    );
+  }
+  if (totalSupply !== undefined && totalSupply !== heldSupply) {
+    console.log(
+      `⚠️  Balances sum to ${heldSupply}, but totalSupply() is ${totalSupply}; check the token doesn't rebase or change balances without Transfer events`,
+    );
+  } else if (totalSupply !== undefined) {
+    console.log(`✅ Balances sum to totalSupply() (${totalSupply})`);
+  }
+  console.log("");
+  console.log("📋 Next step:");
+  console.log(`   bun run generate:merkle ${outputPath} data/merkle-tree.json`);
+} catch (error) {
+  console.error("❌ Error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}
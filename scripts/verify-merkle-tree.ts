@@ -0,0 +1,229 @@
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import type { IpfsMerkleData } from "@/lib/types/ipfs.types";
+import type { AirdropTree } from "@/lib/utils/airdrop-core";
+import {
+  buildAirdropTree,
+  createAirdropTree,
+  getClaimDataAt,
+  parseMerkleData,
+  validateRecipients,
+  verifyClaimData,
+} from "@/lib/utils/airdrop-core";
+
+/** A check and the problems it found; no problems means it passed */
+type CheckResult = { name: string; problems: string[] };
+
+/** Number of checks in a full run */
+const CHECK_COUNT = 5;
+
+/** How many problems each check prints */
+const PROBLEM_LIMIT = 10;
+
+/**
+ * Checks the recipient list the way the generator does: valid addresses, no duplicates and
+ * positive integer amounts.
+ */
+function checkRecipients(data: IpfsMerkleData): string[] {
+  try {
+    validateRecipients(data.recipients);
+    return [];
+  } catch (error) {
+    return [error instanceof Error ? error.message : String(error)];
+  }
+}
+
+/**
+ * Loads `merkle_tree`, which checks every node hashes correctly, and checks its leaf encoding.
+ * @returns The tree, or undefined if it can't be loaded
+ */
+function checkTreeStructure(data: IpfsMerkleData): { problems: string[]; tree?: AirdropTree } {
+  const problems: string[] = [];
+  try {
+    const { tree } = buildAirdropTree(data, {
+      onUnexpectedLeafEncoding: (encoding) =>
+        problems.push(`Leaf encoding ${JSON.stringify(encoding)} is not the Sablier one`),
+    });
+    return { problems, tree };
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+    return { problems };
+  }
+}
+
+/**
+ * Checks the leaves are `[i, recipients[i].address, recipients[i].amount]` for i = 0..n-1, which
+ * also makes every leaf index unique and in order.
+ */
+function checkLeaves(data: IpfsMerkleData, tree: AirdropTree): string[] {
+  const problems: string[] = [];
+  const leaves = [...tree.entries()];
+
+  if (leaves.length !== data.recipients.length) {
+    problems.push(
+      `merkle_tree has ${leaves.length} leaves, recipients has ${data.recipients.length}`,
+    );
+  }
+
+  for (const [position, [index, address, amount]] of leaves) {
+    if (index !== position.toString()) {
+      problems.push(`Leaf ${position} has index ${index}, expected ${position}`);
+      continue;
+    }
+
+    const recipient = data.recipients[position];
+    if (!recipient) {
+      continue;
+    }
+    if (address.toLowerCase() !== recipient.address.toLowerCase()) {
+      problems.push(`Leaf ${index} is for ${address}, recipients lists ${recipient.address}`);
+    } else if (amount !== recipient.amount) {
+      problems.push(
+        `Leaf ${index} amount ${amount} differs from recipients amount ${recipient.amount}`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks `root`, `number_of_recipients` and `total_amount` against `merkle_tree` and against
+ * a tree rebuilt from `recipients` with the generator's code.
+ */
+function checkSummary(data: IpfsMerkleData, tree: AirdropTree): string[] {
+  const problems: string[] = [];
+
+  if (tree.root.toLowerCase() !== data.root.toLowerCase()) {
+    problems.push(`root ${data.root} differs from the merkle_tree root ${tree.root}`);
+  }
+  try {
+    const rebuiltRoot = createAirdropTree(data.recipients).root;
+    if (rebuiltRoot.toLowerCase() !== data.root.toLowerCase()) {
+      problems.push(
+        `root ${data.root} differs from the root rebuilt from recipients ${rebuiltRoot}`,
+      );
+    }
+  } catch (error) {
+    problems.push(
+      `Could not rebuild the tree from recipients: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  const leafCount = [...tree.entries()].length;
+  if (data.number_of_recipients !== data.recipients.length) {
+    problems.push(
+      `number_of_recipients is ${data.number_of_recipients}, recipients has ${data.recipients.length}`,
+    );
+  }
+  if (data.number_of_recipients !== leafCount) {
+    problems.push(
+      `number_of_recipients is ${data.number_of_recipients}, merkle_tree has ${leafCount} leaves`,
+    );
+  }
+
+  let leafTotal = 0n;
+  for (const [, [, , amount]] of tree.entries()) {
+    leafTotal += BigInt(amount);
+  }
+  if (!/^\d+$/.test(data.total_amount) || BigInt(data.total_amount) !== leafTotal) {
+    problems.push(
+      `total_amount is ${data.total_amount}, the merkle_tree leaves sum to ${leafTotal}`,
+    );
+  }
+  return problems;
+}
+
+/**
+ * Generates a proof for every leaf and verifies it against `root` independently of the tree,
+ * the way the contract would.
+ */
+function checkProofs(data: IpfsMerkleData, tree: AirdropTree): string[] {
+  const problems: string[] = [];
+  for (const [position, [, address]] of tree.entries()) {
+    try {
+      if (!verifyClaimData(data.root, address, getClaimDataAt(tree, position))) {
+        problems.push(`Proof for leaf ${position} (${address}) does not verify against root`);
+      }
+    } catch (error) {
+      problems.push(
+        `Could not prove leaf ${position} (${address}): ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  return problems;
+}
+
+/**
+ * Runs every check on a Sablier-format tree file. Checks that need `merkle_tree` are skipped
+ * if it can't be loaded.
+ *
+ * @throws Error if the file is not a Sablier-format payload at all
+ */
+function verifyMerkleTree(path: string): CheckResult[] {
+  const data = parseMerkleData(readFileSync(path, "utf-8"), path);
+  const structure = checkTreeStructure(data);
+  const results: CheckResult[] = [
+    { name: "Recipients are valid", problems: checkRecipients(data) },
+    { name: "merkle_tree is well formed", problems: structure.problems },
+  ];
+
+  const { tree } = structure;
+  if (!tree) {
+    return results;
+  }
+  return [
+    ...results,
+    {
+      name: "Leaves match recipients, indexes unique and in order",
+      problems: checkLeaves(data, tree),
+    },
+    {
+      name: "root, number_of_recipients and total_amount agree",
+      problems: checkSummary(data, tree),
+    },
+    { name: "Every leaf has a valid proof", problems: checkProofs(data, tree) },
+  ];
+}
+
+// CLI execution
+const { positionals } = parseArgs({ allowPositionals: true });
+
+if (positionals.length !== 1) {
+  console.error("Usage: bun run scripts/verify-merkle-tree.ts <merkle-tree.json>");
+  console.error("");
+  console.error("Checks a Sablier-format tree file end to end, e.g. one produced by another tool.");
+  console.error("");
+  console.error("Example:");
+  console.error("  bun run scripts/verify-merkle-tree.ts data/merkle-tree.json");
+  process.exit(1);
+}
+
+try {
+  const inputPath = resolve(process.cwd(), positionals[0]);
+  console.log(`🔍 Verifying Merkle tree: ${inputPath}`);
+  const startedAt = Date.now();
+  const results = verifyMerkleTree(inputPath);
+
+  for (const { name, problems } of results) {
+    console.log(`${problems.length === 0 ? "✅" : "❌"} ${name}`);
+    for (const problem of problems.slice(0, PROBLEM_LIMIT)) {
+      console.log(`   - ${problem}`);
+    }
+    if (problems.length > PROBLEM_LIMIT) {
+      console.log(`   ... and ${problems.length - PROBLEM_LIMIT} more`);
+    }
+  }
+
+  const failed = results.filter(({ problems }) => problems.length > 0).length;
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  if (failed > 0) {
+    const skipped = results.length < CHECK_COUNT ? `, ${CHECK_COUNT - results.length} skipped` : "";
+    console.error(`\n❌ ${failed} of ${CHECK_COUNT} checks failed${skipped} (${seconds}s)`);
+    process.exit(1);
+  }
+  console.log(`\n🎉 All ${results.length} checks passed (${seconds}s)`);
+} catch (error) {
+  console.error("❌ Error:", error instanceof Error ? error.message : error);
+  process.exit(1);
+}